@@ -1,9 +1,84 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Chess, Square, Move } from 'https://esm.sh/chess.js@1.0.0-beta.8';
 import { ChessPiece, AnimatedChessPiece } from './components/Pieces';
+import { BoardShapes, HintArrow } from './components/BoardShapes';
 import { AnalysisModal } from './components/AnalysisModal';
-import { SettingsModal, TimeControl, BoardTheme } from './components/SettingsModal';
-import { analyzeBoard, getCoachTip } from './services/geminiService';
+import { PgnModal } from './components/PgnModal';
+import { MoveList } from './components/MoveList';
+import { GameReviewPanel } from './components/GameReviewPanel';
+import { PositionEditor, StartMode } from './components/PositionEditor';
+import { EvalBar } from './components/EvalBar';
+import { PromotionPicker, PromotionPiece } from './components/PromotionPicker';
+import { ResumeGameModal } from './components/ResumeGameModal';
+import { PuzzlePanel } from './components/PuzzlePanel';
+import { OpeningExplorer } from './components/OpeningExplorer';
+import { OnlineGameModal, OnlineGame, OnlineSide } from './components/OnlineGameModal';
+import { HistoryModal } from './components/HistoryModal';
+import { EngineOpponent, EvalScore, AnalysisLine, GameResult } from './types';
+import { SettingsModal, BoardTheme, Opponent, PlayerSide, MoveInput } from './components/SettingsModal';
+import { AnalysisProviderId, getAnalysisProvider } from './services/analysisProvider';
+import { getEngineMove, getEvalScore, engineAcceptsDraw } from './services/engineService';
+import { describeGameResult, getPositionResult, isPositionTermination, parsePgnResult, pgnResultTags } from './services/gameEnd';
+import { hasMatingMaterial } from './services/material';
+import { reviewGame, GameReview } from './services/review';
+import { getEngineLevel } from './services/engine';
+import { exportPgn, importPgn, formatPgnDate, PgnHeaders } from './services/pgn';
+import {
+  TimeControl,
+  ClockState,
+  normalizeTimeControl,
+  createClock,
+  UNTIMED,
+  getRemaining,
+  pressClock,
+  setClockTurn,
+  pgnTimeControlTags,
+  parsePgnTimeControl,
+  getTimeControlCategory
+} from './services/clock';
+import { SavedGame, saveGame, loadSavedGame, restoreGame } from './services/gameStorage';
+import {
+  PuzzleSession,
+  PuzzleStats,
+  PuzzleOutcome,
+  loadPuzzleStats,
+  savePuzzleStats,
+  recordPuzzleResult,
+  pickPuzzle,
+  startPuzzleSession,
+  isSolutionMove,
+  uciToMove
+} from './services/puzzles';
+import { findOpening, getBookMoves } from './services/openings';
+import { RelayClient, connectRelay, toLocalClock } from './services/relayClient';
+import { ClientMessage, RoomState, ServerMessage } from './services/relayProtocol';
+import { PlayerProfile, createProfile, getProfileName, loadProfiles, newId, saveProfiles } from './services/profiles';
+import { GameRecord, RecordedPlayer, saveGameRecord } from './services/gameHistory';
+import { RatingBook, RatingChange, formatRating, getRating, loadRatings, rateGame, saveRatings } from './services/ratings';
+import { BoardShape, ShapeColor, modifierColor, toggleShape } from './services/shapes';
+import { Premove, createPremove, getPremovePosition, premoveDestinations } from './services/premove';
+import { Variant, createGame, gameVariant, getChecksGiven, getVariantInfo, variantStartFen } from './services/variants';
+import {
+  AddedNode,
+  TreeNode,
+  TreePath,
+  addMove,
+  branchPly,
+  deleteAdded,
+  deleteVariation,
+  emptyTree,
+  lineEnd,
+  mainlineMoves,
+  mainlinePath,
+  nodeAt,
+  pathMoves,
+  promoteLine,
+  restoreTree,
+  samePath,
+  serializeTree,
+  setAnnotation,
+  syncMainline
+} from './services/moveTree';
 import { 
   RotateCcw, 
   BrainCircuit, 
@@ -14,72 +89,313 @@ import {
   Lightbulb,
   AlertTriangle,
   Zap,
-  Clock
+  Clock,
+  Cpu,
+  FileText,
+  LineChart,
+  LayoutGrid,
+  Puzzle,
+  BookOpen,
+  Wifi,
+  Flag,
+  Handshake,
+  FlaskConical,
+  X
 } from 'lucide-react';
 
 // Color types
 type Color = 'w' | 'b';
 
+// Minimum time before the computer replies, so its move doesn't land mid-animation
+const ENGINE_MIN_DELAY_MS = 400;
+
+// Pause before the puzzle opponent replies, so the solver sees their own move land
+const PUZZLE_REPLY_DELAY_MS = 500;
+
+// Pointer travel before a press on a piece turns into a drag
+const DRAG_THRESHOLD_PX = 4;
+
+// Holding a finger still this long starts drawing an arrow instead of a move
+const LONG_PRESS_MS = 450;
+
+// Opacity of the analysis line's arrows, best move first
+const PV_ARROW_OPACITY = [0.8, 0.5, 0.35];
+
+// Piece being dragged; coordinates are in px relative to the board
+interface DragState {
+  from: Square;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  size: number; // board width in px
+  active: boolean;
+}
+
 const App: React.FC = () => {
+  // Helper for localStorage
+  const getSavedSetting = <T,>(key: string, defaultValue: T): T => {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  };
+
+  // Variant settings, needed for the very first game
+  const [variant, setVariant] = useState<Variant>(() => getSavedSetting('chess_variant', 'standard'));
+  // Chess960 start position number, or null for a random one each game
+  const [chess960Number, setChess960Number] = useState<number | null>(() => getSavedSetting('chess_chess960Number', null));
+
   // Game Engine - Use Ref to persist history for Undo functionality
-  const gameRef = useRef(new Chess());
+  const [initialGame] = useState(() => createGame(variant, variantStartFen(variant, chess960Number)));
+  const gameRef = useRef(initialGame);
   
   // Reactive State for UI
   const [fen, setFen] = useState(gameRef.current.fen());
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<string[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{from: Square, to: Square} | null>(null);
   const [turn, setTurn] = useState<Color>('w');
   const [isCheck, setIsCheck] = useState(false);
-  const [gameOver, setGameOver] = useState(false);
-  const [gameStatus, setGameStatus] = useState<string>('');
+  const [gameResult, setGameResult] = useState<GameResult | null>(null);
+  const gameOver = gameResult !== null;
+  // Draw offered at ply `ply`; one offer per move, answered before play goes on
+  const [drawOffer, setDrawOffer] = useState<{ by: Color, ply: number, status: 'pending' | 'declined' } | null>(null);
+  // Resigning takes a second tap
+  const [resignArmed, setResignArmed] = useState(false);
   
   // UI State
   const [orientation, setOrientation] = useState<Color>('w');
   const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isPgnOpen, setIsPgnOpen] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isExplorerOpen, setIsExplorerOpen] = useState(false);
+  const [isOnlineOpen, setIsOnlineOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [analysisLoading, setAnalysisLoading] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
+  const [analysisFen, setAnalysisFen] = useState('');
   const [coachTip, setCoachTip] = useState<string>('');
   const [lastMove, setLastMove] = useState<{from: string, to: string, flags?: string} | null>(null);
-  const [historyCount, setHistoryCount] = useState(0); 
+  const [history, setHistory] = useState<Move[]>([]);
+  const historyCount = history.length;
+  // The game with its variations and annotations; the main line starts with the game's moves
+  const [tree, setTree] = useState<TreeNode>(emptyTree);
+  // Position picked in the move list, on the main line or in a variation (null = live position)
+  const [cursor, setCursor] = useState<TreePath | null>(null);
+  // Sandbox - the first node each analysis line played out added to the tree, which
+  // goes again with everything after it on returning to the game
+  const [sandbox, setSandbox] = useState<AddedNode[]>([]);
+  // The tree as the game keeps it, for saving and export
+  const recordedTree = useMemo(
+    () => (sandbox.length > 0 ? deleteAdded(tree, sandbox, historyCount) : tree),
+    [tree, sandbox, historyCount]
+  );
   
-  // Helper for localStorage
-  const getSavedSetting = <T,>(key: string, defaultValue: T): T => {
-    try {
-      const saved = localStorage.getItem(key);
-      return saved ? JSON.parse(saved) : defaultValue;
-    } catch {
-      return defaultValue;
-    }
+  // Position shown on the board: the live game, or another one from the tree
+  const isViewingHistory = cursor !== null;
+  const viewPath = cursor ?? mainlinePath(historyCount);
+  const viewMoves = useMemo(() => pathMoves(tree, viewPath), [tree, cursor, historyCount]);
+  const startFen = history.length > 0 ? history[0].before : fen;
+  // Every board derived from the game plays by its variant's rules
+  const currentVariant = gameVariant(gameRef.current);
+  const viewFen = cursor === null ? null : viewMoves.length === 0 ? startFen : viewMoves[viewMoves.length - 1].after;
+  const viewGame = useMemo(() => (viewFen === null ? null : createGame(currentVariant, viewFen)), [viewFen, currentVariant]);
+
+  // Puzzle trainer - a bundled puzzle solved on the main board while the real game waits
+  const [puzzle, setPuzzle] = useState<PuzzleSession | null>(null);
+  const puzzleGame = useMemo(() => {
+    if (!puzzle) return null;
+    return new Chess(puzzle.moves.length === 0 ? puzzle.puzzle.fen : puzzle.moves[puzzle.moves.length - 1].after);
+  }, [puzzle]);
+  // Live game position, where suggestions and the game over overlay apply
+  const isLiveBoard = !puzzle && !isViewingHistory;
+
+  const shownGame = puzzleGame ?? viewGame;
+  const boardGame = shownGame ?? gameRef.current;
+  const boardTurn: Color = shownGame ? shownGame.turn() : turn;
+  const boardInCheck = shownGame ? shownGame.inCheck() : isCheck;
+  // Three-check tally for the displayed position
+  const checksGiven = getChecksGiven(boardGame);
+  const boardLastMove = puzzle
+    ? (puzzle.moves.length > 0 ? puzzle.moves[puzzle.moves.length - 1] : null)
+    : cursor === null ? lastMove : viewMoves[viewMoves.length - 1] ?? null;
+
+  // Opening of the displayed line, matched by position so transpositions count;
+  // derived from the history, so it follows takebacks and replays
+  const currentOpening = useMemo(() => {
+    if (puzzle || currentVariant !== 'standard') return null;
+    return findOpening([startFen, ...viewMoves.map((m) => m.after)]);
+  }, [puzzle, startFen, viewMoves, currentVariant]);
+
+  // Shows a position from the tree; the live one goes back to following the game
+  const goToPath = (path: TreePath) => {
+    if (puzzle || !nodeAt(tree, path)) return;
+    setCursor(samePath(path, mainlinePath(historyCount)) ? null : path);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
   };
 
+  const goToPly = (ply: number) => goToPath(mainlinePath(Math.min(historyCount, Math.max(0, ply))));
+
+  // Arrow keys step along the shown line on desktop, up and down switch between its variations
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const siblings = viewPath.length > 0 ? nodeAt(tree, viewPath.slice(0, -1))!.children.length : 0;
+      const switchTo = (step: number) => {
+        if (siblings < 2) return;
+        goToPath([...viewPath.slice(0, -1), (viewPath[viewPath.length - 1] + step + siblings) % siblings]);
+      };
+      if (e.key === 'ArrowLeft') goToPath(viewPath.slice(0, -1));
+      else if (e.key === 'ArrowRight') goToPath([...viewPath, 0]);
+      else if (e.key === 'ArrowUp') switchTo(-1);
+      else if (e.key === 'ArrowDown') switchTo(1);
+      else if (e.key === 'Home') goToPath([]);
+      else if (e.key === 'End') goToPath(lineEnd(tree, viewPath));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [tree, cursor, historyCount, puzzle]);
+
   // Settings State - Initialize from localStorage
-  const [timeControl, setTimeControl] = useState<TimeControl>(() => getSavedSetting('chess_timeControl', 10));
+  const [timeControl, setTimeControl] = useState<TimeControl>(() => normalizeTimeControl(getSavedSetting('chess_timeControl', null)));
   const [boardTheme, setBoardTheme] = useState<BoardTheme>(() => getSavedSetting('chess_boardTheme', 'green'));
   const [soundEnabled, setSoundEnabled] = useState<boolean>(() => getSavedSetting('chess_soundEnabled', true));
-  const [whiteName, setWhiteName] = useState<string>(() => getSavedSetting('chess_whiteName', 'White'));
-  const [blackName, setBlackName] = useState<string>(() => getSavedSetting('chess_blackName', 'Black'));
+  const [profiles, setProfiles] = useState<PlayerProfile[]>(() => loadProfiles());
+  const [whiteProfileId, setWhiteProfileId] = useState<string | null>(() => getSavedSetting('chess_whiteProfile', null));
+  const [blackProfileId, setBlackProfileId] = useState<string | null>(() => getSavedSetting('chess_blackProfile', null));
+  const [opponent, setOpponent] = useState<Opponent>(() => getSavedSetting('chess_opponent', 'human'));
+  const [playerSide, setPlayerSide] = useState<PlayerSide>(() => getSavedSetting('chess_playerSide', 'w'));
+  const [engineLevel, setEngineLevel] = useState<number>(() => getSavedSetting('chess_engineLevel', 3));
+  const [rated, setRated] = useState<boolean>(() => getSavedSetting('chess_rated', true));
+  const [moveInput, setMoveInput] = useState<MoveInput>(() => getSavedSetting('chess_moveInput', 'both'));
+  const [drawColor, setDrawColor] = useState<ShapeColor>(() => getSavedSetting('chess_drawColor', 'G'));
+  const [analysisProviderId, setAnalysisProviderId] = useState<AnalysisProviderId>(() => getSavedSetting('chess_analysisProvider', 'gemini'));
+  const analysisProvider = getAnalysisProvider(analysisProviderId);
+  const [showEvalBar, setShowEvalBar] = useState<boolean>(() => getSavedSetting('chess_showEvalBar', false));
+  const [coachComments, setCoachComments] = useState<boolean>(() => getSavedSetting('chess_coachComments', true));
+  const [puzzleStats, setPuzzleStats] = useState<PuzzleStats>(() => loadPuzzleStats());
+  const [ratings, setRatings] = useState<RatingBook>(() => loadRatings());
 
   // Persist Settings
   useEffect(() => {
     localStorage.setItem('chess_timeControl', JSON.stringify(timeControl));
     localStorage.setItem('chess_boardTheme', JSON.stringify(boardTheme));
     localStorage.setItem('chess_soundEnabled', JSON.stringify(soundEnabled));
-    localStorage.setItem('chess_whiteName', JSON.stringify(whiteName));
-    localStorage.setItem('chess_blackName', JSON.stringify(blackName));
-  }, [timeControl, boardTheme, soundEnabled, whiteName, blackName]);
+    localStorage.setItem('chess_whiteProfile', JSON.stringify(whiteProfileId));
+    localStorage.setItem('chess_blackProfile', JSON.stringify(blackProfileId));
+    localStorage.setItem('chess_opponent', JSON.stringify(opponent));
+    localStorage.setItem('chess_playerSide', JSON.stringify(playerSide));
+    localStorage.setItem('chess_engineLevel', JSON.stringify(engineLevel));
+    localStorage.setItem('chess_rated', JSON.stringify(rated));
+    localStorage.setItem('chess_variant', JSON.stringify(variant));
+    localStorage.setItem('chess_chess960Number', JSON.stringify(chess960Number));
+    localStorage.setItem('chess_moveInput', JSON.stringify(moveInput));
+    localStorage.setItem('chess_drawColor', JSON.stringify(drawColor));
+    localStorage.setItem('chess_analysisProvider', JSON.stringify(analysisProviderId));
+    localStorage.setItem('chess_showEvalBar', JSON.stringify(showEvalBar));
+    localStorage.setItem('chess_coachComments', JSON.stringify(coachComments));
+  }, [timeControl, boardTheme, soundEnabled, whiteProfileId, blackProfileId, opponent, playerSide, engineLevel, rated, variant, chess960Number, moveInput, drawColor, analysisProviderId, showEvalBar, coachComments]);
+
+  useEffect(() => {
+    savePuzzleStats(puzzleStats);
+  }, [puzzleStats]);
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+    saveRatings(ratings);
+  }, [ratings]);
+
+  // Settings only take effect on reset, so the current game keeps its own copy
+  const createEngineOpponent = (): EngineOpponent | null => {
+    if (opponent !== 'computer') return null;
+    const humanColor: Color = playerSide === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : playerSide;
+    return { color: humanColor === 'w' ? 'b' : 'w', level: engineLevel };
+  };
+  const [engineOpponent, setEngineOpponent] = useState<EngineOpponent | null>(createEngineOpponent);
+  const [engineThinking, setEngineThinking] = useState(false);
+
+  // Profiles seated in a new game; against the computer the White pick is the human
+  const seatProfiles = (opponent: EngineOpponent | null): { w: string | null, b: string | null } => {
+    if (!opponent) return { w: whiteProfileId, b: blackProfileId };
+    return opponent.color === 'w' ? { w: null, b: whiteProfileId } : { w: whiteProfileId, b: null };
+  };
+  const [gameProfiles, setGameProfiles] = useState(() => seatProfiles(engineOpponent));
+  // Names of the current game's players; imported and resumed games bring their own
+  const [whiteName, setWhiteName] = useState(() => getProfileName(profiles, gameProfiles.w) ?? 'White');
+  const [blackName, setBlackName] = useState(() => getProfileName(profiles, gameProfiles.b) ?? 'Black');
+
+  // A game is only rated when every human at the board has a profile of their own;
+  // variant games never are
+  const canRate = (seated: { w: string | null, b: string | null }, opponent: EngineOpponent | null) =>
+    (['w', 'b'] as const).every((color) => opponent?.color === color || !!getProfileName(profiles, seated[color]))
+    && seated.w !== seated.b;
+  const [gameRated, setGameRated] = useState(() => rated && variant === 'standard' && canRate(gameProfiles, engineOpponent));
+  // Rating changes from the game that just ended, shown in the game-over overlay
+  const [ratingChanges, setRatingChanges] = useState<{ w: RatingChange | null, b: RatingChange | null } | null>(null);
+
+  const seatPlayers = (opponent: EngineOpponent | null, ratedGame: boolean) => {
+    const seated = seatProfiles(opponent);
+    setGameProfiles(seated);
+    setWhiteName(getProfileName(profiles, seated.w) ?? 'White');
+    setBlackName(getProfileName(profiles, seated.b) ?? 'Black');
+    setGameRated(ratedGame && canRate(seated, opponent));
+  };
+
+  // Game against another device through the relay; the board keeps facing this player's side
+  const [online, setOnline] = useState<OnlineGame | null>(null);
+  const relayRef = useRef<RelayClient | null>(null);
+  const isOnline = !!online?.code;
+  const isEngineTurn = !!engineOpponent && turn === engineOpponent.color && !gameOver;
+
+  // Face the board towards the human when starting against the computer
+  const faceHuman = (opponent: EngineOpponent | null) => {
+    if (opponent) setOrientation(opponent.color === 'w' ? 'b' : 'w');
+  };
+  useEffect(() => {
+    faceHuman(engineOpponent);
+  }, []);
+
+  // Game left unfinished last session, offered for resuming on startup
+  const [pendingResume, setPendingResume] = useState<SavedGame | null>(() => loadSavedGame());
+
+  // Extra PGN tags for the current game (date, time control, imported tags)
+  const gameHeadersRef = useRef<PgnHeaders>({
+    Date: formatPgnDate(new Date()),
+    ...pgnTimeControlTags(timeControl),
+  });
 
   // Suggestion State
-  const [suggestedMove, setSuggestedMove] = useState<{from: string, to: string} | null>(null);
+  const [suggestedMove, setSuggestedMove] = useState<{from: string, to: string, promotion?: string} | null>(null);
   const [suggestionLoading, setSuggestionLoading] = useState(false);
 
-  // Timer State (in seconds)
-  const [whiteTime, setWhiteTime] = useState(timeControl * 60);
-  const [blackTime, setBlackTime] = useState(timeControl * 60);
+  // Clock State - the time control is fixed for the game, settings apply on reset
+  const [gameTimeControl, setGameTimeControl] = useState<TimeControl>(timeControl);
+  const [clock, setClock] = useState<ClockState>(() => createClock(timeControl, pendingResume ? null : 'w', Date.now()));
+  const [now, setNow] = useState(() => Date.now());
+  // Remaining time in seconds
+  const whiteTime = getRemaining(clock, gameTimeControl, 'w', now) / 1000;
+  const blackTime = getRemaining(clock, gameTimeControl, 'b', now) / 1000;
 
   // Computed display names (fallback to default if empty)
-  const displayWhiteName = whiteName.trim() || 'White';
-  const displayBlackName = blackName.trim() || 'Black';
+  const engineName = engineOpponent ? `Computer (${getEngineLevel(engineOpponent.level).label})` : '';
+  const displayWhiteName = isOnline ? online!.names.w ?? 'Waiting...' : engineOpponent?.color === 'w' ? engineName : whiteName.trim() || 'White';
+  const displayBlackName = isOnline ? online!.names.b ?? 'Waiting...' : engineOpponent?.color === 'b' ? engineName : blackName.trim() || 'Black';
+  // Ratings shown beside the names in rated games; the computer shows its level's anchor
+  const displayRating = (color: Color): string | null => {
+    if (!gameRated) return null;
+    if (engineOpponent?.color === color) return String(getEngineLevel(engineOpponent.level).rating);
+    const id = gameProfiles[color];
+    return id ? formatRating(getRating(ratings, id, getTimeControlCategory(gameTimeControl))) : null;
+  };
 
   // Refs for sound
   const moveSound = useRef<HTMLAudioElement | null>(null);
@@ -101,45 +417,43 @@ const App: React.FC = () => {
     }
   };
 
-  // Timer Logic
+  // Timer Logic - only refreshes the display, remaining time comes from timestamps
   useEffect(() => {
-    if (gameOver) return;
-
-    const timerInterval = setInterval(() => {
-      if (turn === 'w') {
-        setWhiteTime((prev) => {
-          if (prev <= 0) return 0;
-          return prev - 1;
-        });
-      } else {
-        setBlackTime((prev) => {
-          if (prev <= 0) return 0;
-          return prev - 1;
-        });
-      }
-    }, 1000);
+    if (gameOver || !clock.running) return;
 
+    const timerInterval = setInterval(() => setNow(Date.now()), 100);
     return () => clearInterval(timerInterval);
-  }, [turn, gameOver]);
+  }, [gameOver, clock.running]);
 
-  // Check for Timeout
+  // Freeze both clocks once the game ends
   useEffect(() => {
-    if (gameOver) return;
-    
-    if (whiteTime <= 0) {
-      setGameOver(true);
-      setGameStatus(`${displayBlackName} wins on time!`);
-      playSound(gameEndSound);
-    } else if (blackTime <= 0) {
-      setGameOver(true);
-      setGameStatus(`${displayWhiteName} wins on time!`);
-      playSound(gameEndSound);
-    }
-  }, [whiteTime, blackTime, gameOver, displayWhiteName, displayBlackName]);
+    if (gameOver) setClock((c) => setClockTurn(c, gameTimeControl, null, Date.now()));
+  }, [gameOver]);
+
+  // Ends the game for a reason the final position doesn't show
+  const endGame = (result: GameResult) => {
+    setGameResult(result);
+    setDrawOffer(null);
+    playSound(gameEndSound);
+  };
+
+  // Check for Timeout - a flag fall only loses if the opponent could still mate.
+  // Online the relay decides it, so both players see the same ending.
+  useEffect(() => {
+    if (gameOver || gameTimeControl.untimed || isOnline) return;
+    const flagged: Color | null = whiteTime <= 0 ? 'w' : blackTime <= 0 ? 'b' : null;
+    if (!flagged) return;
+
+    const opponent: Color = flagged === 'w' ? 'b' : 'w';
+    endGame({ winner: hasMatingMaterial(gameRef.current, opponent, currentVariant) ? opponent : null, termination: 'timeout' });
+  }, [whiteTime, blackTime, gameOver]);
 
   const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    // Show tenths in a time scramble
+    if (seconds < 10) return `0:${(Math.floor(seconds * 10) / 10).toFixed(1).padStart(4, '0')}`;
+    const whole = Math.floor(seconds);
+    const mins = Math.floor(whole / 60);
+    const secs = whole % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
@@ -152,7 +466,8 @@ const App: React.FC = () => {
     
     // Update history tracking
     const history = game.history({ verbose: true });
-    setHistoryCount(history.length);
+    setHistory(history);
+    setTree((t) => syncMainline(t, history));
     
     if (history.length > 0) {
       const last = history[history.length - 1];
@@ -161,32 +476,267 @@ const App: React.FC = () => {
       setLastMove(null);
     }
     
-    if (game.isGameOver()) {
-      setGameOver(true);
-      if (game.isCheckmate()) {
-        const winner = game.turn() === 'w' ? displayBlackName : displayWhiteName;
-        setGameStatus(`Checkmate! ${winner} wins.`);
-        playSound(gameEndSound);
-      }
-      else if (game.isDraw()) setGameStatus('Draw!');
-      else if (game.isStalemate()) setGameStatus('Stalemate!');
-      else setGameStatus('Game Over');
+    const positionResult = getPositionResult(game);
+    if (positionResult) {
+      setGameResult(positionResult);
+      if (positionResult.winner) playSound(gameEndSound);
     } else {
-      // Only un-set game over if we are not in a timeout state
-      if (whiteTime > 0 && blackTime > 0) {
-        setGameOver(false);
-        setGameStatus('');
-      }
+      // A result the position decided goes once it no longer shows it; a resignation,
+      // agreement or flag fall stands until a new game clears it
+      setGameResult((result) => (result && isPositionTermination(result.termination) ? null : result));
       if (inCheck) {
         playSound(checkSound);
       }
     }
-  }, [whiteTime, blackTime, displayWhiteName, displayBlackName]);
+  }, []);
+
+  // Plays a move on the live game and refreshes the UI. Returns null if illegal.
+  const applyMove = (move: { from: string, to: string, promotion?: string }) => {
+    const game = gameRef.current;
+    let moveResult;
+    try {
+      moveResult = game.move(move);
+    } catch (e) {
+      moveResult = null;
+    }
+    if (!moveResult) return null;
+
+    const moveTime = Date.now();
+    setClock((c) => pressClock(c, gameTimeControl, moveTime));
+    setNow(moveTime);
+    setDroppedMove(null);
+
+    if (moveResult.captured) {
+      playSound(captureSound);
+    } else {
+      playSound(moveSound);
+    }
+
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setSuggestedMove(null); // Clear suggestion on move
+    updateGameState();
+    return moveResult;
+  };
+
+  // Computer Opponent - waits while a puzzle is open, the real game is paused
+  const puzzleActive = !!puzzle;
+  useEffect(() => {
+    if (!engineOpponent || gameOver || pendingResume || puzzleActive || turn !== engineOpponent.color) return;
+
+    const game = gameRef.current;
+    const requestFen = game.fen();
+    let cancelled = false;
+    setEngineThinking(true);
+
+    Promise.all([
+      getEngineMove(requestFen, engineOpponent.level, gameVariant(game)),
+      new Promise((resolve) => setTimeout(resolve, ENGINE_MIN_DELAY_MS)),
+    ])
+      .then(([result]) => {
+        // Discard replies to positions that were undone or reset meanwhile
+        if (cancelled || game.fen() !== requestFen) return;
+        const best = result.lines[0];
+        if (best) applyMove({ from: best.from, to: best.to, promotion: best.promotion });
+      })
+      .catch((e) => console.error("Engine move failed:", e))
+      .finally(() => {
+        if (!cancelled) setEngineThinking(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setEngineThinking(false);
+    };
+  }, [fen, turn, gameOver, engineOpponent, pendingResume, puzzleActive]);
+
+  // Moves made by a human player, which may earn a coach comment
+  const playerMove = (move: { from: string, to: string, promotion?: string }) => {
+    const moveResult = applyMove(move);
+    if (!moveResult) return null;
+    if (isOnline) relayRef.current?.send({ type: 'move', move, ply: gameRef.current.history().length - 1 });
+
+    // Trigger optional coach tip, kept as a comment on the move unless it was taken back meanwhile
+    if (Math.random() > 0.7) { 
+       const ply = gameRef.current.history().length;
+       analysisProvider.coachComment(gameRef.current.fen(), moveResult.san, currentVariant).then(tip => {
+         setCoachTip(tip);
+         if (!tip || !coachComments) return;
+         setTree((t) => {
+           const path = mainlinePath(ply);
+           if (pathMoves(t, path)[ply - 1]?.after !== moveResult.after) return t;
+           const annotation = nodeAt(t, path)!.annotation;
+           return setAnnotation(t, path, { ...annotation, comment: [annotation?.comment, tip].filter(Boolean).join(' ') });
+         });
+       });
+    } else {
+       setCoachTip('');
+    }
+    return moveResult;
+  };
+
+  // Moves played away from the live position go into the tree, following a move that is
+  // already there or starting a variation, and leave the game as it is
+  const treeMove = (move: { from: string, to: string, promotion?: string }) => {
+    if (!viewGame) return null;
+    let moveResult: Move;
+    try {
+      moveResult = createGame(currentVariant, viewGame.fen()).move(move);
+    } catch {
+      return null;
+    }
+    const added = addMove(tree, viewPath, moveResult);
+    setTree(added.root);
+    setCursor(samePath(added.path, mainlinePath(historyCount)) ? null : added.path);
+    setDroppedMove(null);
+    playSound(moveResult.captured ? captureSound : moveSound);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    return moveResult;
+  };
+
+  // Rates the puzzle attempt the first time it succeeds or fails; later moves don't count
+  const ratePuzzle = (session: PuzzleSession, outcome: PuzzleOutcome): PuzzleSession => {
+    if (session.ratingChange !== null) return session;
+    const result = recordPuzzleResult(puzzleStats, session.puzzle, outcome);
+    setPuzzleStats(result.stats);
+    return { ...session, ratingChange: result.ratingChange };
+  };
+
+  // Puzzle moves are checked against the solution; wrong ones are marked and not played
+  const puzzleMove = (move: { from: string, to: string, promotion?: string }) => {
+    if (!puzzle || !puzzleGame || puzzle.status !== 'playing') return null;
+    let moveResult: Move;
+    try {
+      moveResult = new Chess(puzzleGame.fen()).move(move);
+    } catch {
+      return null;
+    }
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+
+    if (!isSolutionMove(puzzle, moveResult)) {
+      setPuzzle({ ...ratePuzzle(puzzle, 'failed'), wrongMove: { from: moveResult.from, to: moveResult.to } });
+      playSound(checkSound);
+      return null;
+    }
+
+    const moves = [...puzzle.moves, moveResult];
+    setDroppedMove(null);
+    if (moves.length >= puzzle.puzzle.moves.length || moveResult.san.endsWith('#')) {
+      const solved = ratePuzzle(puzzle, puzzle.hintUsed ? 'assisted' : 'solved');
+      setPuzzle({ ...solved, moves, status: 'solved', wrongMove: null });
+      playSound(gameEndSound);
+    } else {
+      setPuzzle({ ...puzzle, moves, status: 'opponent', wrongMove: null });
+      playSound(moveResult.captured ? captureSound : moveSound);
+    }
+    return moveResult;
+  };
+
+  // Opponent replies, and the whole line once the solution is shown, play after a pause
+  useEffect(() => {
+    if (!puzzle || !puzzleGame || (puzzle.status !== 'opponent' && puzzle.status !== 'revealing')) return;
+    const timer = setTimeout(() => {
+      const reply: Move = new Chess(puzzleGame.fen()).move(uciToMove(puzzle.puzzle.moves[puzzle.moves.length]));
+      const moves = [...puzzle.moves, reply];
+      const done = moves.length >= puzzle.puzzle.moves.length;
+      const status = puzzle.status === 'revealing' ? (done ? 'failed' : 'revealing') : 'playing';
+      setPuzzle({ ...puzzle, moves, status });
+      playSound(reply.captured ? captureSound : moveSound);
+    }, PUZZLE_REPLY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [puzzle, puzzleGame]);
+
+  // Whichever board the human is currently moving on
+  const interactiveGame = puzzleGame ?? viewGame ?? gameRef.current;
+  const humanMove = puzzle ? puzzleMove : isViewingHistory ? treeMove : playerMove;
+  // Online, only this player's own moves are made here, and only while the relay is reachable
+  const isAwaitingOnline = isOnline && (turn !== online!.color || online!.status !== 'open' || !online!.names.w || !online!.names.b);
+  const canInteract = puzzle
+    ? puzzle.status === 'playing'
+    : isViewingHistory || (!gameOver && !isEngineTurn && !isAwaitingOnline);
+
+  // Premoves - the player waiting on the computer or an online opponent queues moves
+  // on the board as it will look once they are played
+  const [premoves, setPremoves] = useState<Premove[]>([]);
+  const premoveColor: Color | null = engineOpponent
+    ? (engineOpponent.color === 'w' ? 'b' : 'w')
+    : isOnline ? online!.color : null;
+  const isPremoving = !!premoveColor && isLiveBoard && !gameOver && turn !== premoveColor
+    && (!isOnline || (!!online!.names.w && !!online!.names.b));
+  const premovePosition = useMemo(() => getPremovePosition(gameRef.current, premoves), [fen, premoves]);
+  // Pieces drawn on the live board while premoves are queued
+  const premovePieces = isLiveBoard && premoves.length > 0 ? premovePosition.pieces : null;
+
+  // The first queued premove plays as soon as the turn comes round, cancelling the rest if it
+  // has become illegal. It presses the clock like any move, so it only costs the moment it takes.
+  useEffect(() => {
+    if (premoves.length === 0) return;
+    if (gameOver || !premoveColor) {
+      setPremoves([]);
+      return;
+    }
+    if (turn !== premoveColor || (isOnline && online!.status !== 'open')) return;
+    const [next, ...rest] = premoves;
+    setPremoves(playerMove(next) ? rest : []);
+  }, [fen, turn, premoves, gameOver, premoveColor, online?.status]);
+
+  // A piece picked up for a premove is put down when the turn arrives
+  useEffect(() => {
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  }, [isPremoving]);
+
+  const cancelPremoves = () => {
+    setPremoves([]);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  // Pieces and moves as the player sees them, which while queuing premoves is the premove board
+  const canTouchBoard = canInteract || isPremoving;
+  const movingColor: Color = isPremoving ? premoveColor! : interactiveGame.turn();
+  const pieceAt = (square: Square) => (isPremoving ? premovePosition.pieces[square] : interactiveGame.get(square));
+  const destinationsFrom = (square: Square): string[] => isPremoving
+    ? premoveDestinations(premovePosition, square)
+    : interactiveGame.moves({ square, verbose: true }).map((m: Move) => m.to);
+
+  const onPromotionSelect = (piece: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    humanMove({ ...pendingPromotion, promotion: piece });
+    setPendingPromotion(null);
+  };
+
+  const cancelPromotion = () => {
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  // Plays from -> to for the human, asking for the piece first on promotion.
+  // Returns false if the move is illegal.
+  const attemptMove = (from: Square, to: Square) => {
+    if (isPremoving) {
+      const premove = createPremove(premovePosition, from, to);
+      if (!premove) return false;
+      setPremoves([...premoves, premove]);
+      setSelectedSquare(null);
+      setPossibleMoves([]);
+      return true;
+    }
+    const isPromotion = interactiveGame.moves({ square: from, verbose: true })
+      .some((m: Move) => m.to === to && m.promotion);
+    if (isPromotion) {
+      setPendingPromotion({ from, to });
+      return true;
+    }
+    return !!humanMove({ from, to });
+  };
 
   // Handle Square Click
   const onSquareClick = (square: Square) => {
-    if (gameOver) return;
-    const game = gameRef.current;
+    if (!canTouchBoard) return;
 
     // If touching same square, deselect
     if (selectedSquare === square) {
@@ -196,109 +746,860 @@ const App: React.FC = () => {
     }
 
     // Attempt Move
-    if (selectedSquare) {
-      try {
-        const moveAttempt = {
-          from: selectedSquare,
-          to: square,
-          promotion: 'q', // Always promote to queen for simplicity
-        };
-
-        // Validate and Move
-        let moveResult;
-        try {
-          moveResult = game.move(moveAttempt);
-        } catch (e) {
-          moveResult = null;
-        }
-
-        if (moveResult) {
-          // Move successful
-          if (moveResult.captured) {
-            playSound(captureSound);
-          } else {
-            playSound(moveSound);
-          }
-
-          setSelectedSquare(null);
-          setPossibleMoves([]);
-          setSuggestedMove(null); // Clear suggestion on move
-          updateGameState();
-          
-          // Trigger optional coach tip
-          if (Math.random() > 0.7) { 
-             getCoachTip(game.fen(), moveResult.san).then(tip => setCoachTip(tip));
-          } else {
-             setCoachTip('');
-          }
-          return;
-        }
-      } catch (e) {
-        // Invalid move
-      }
-    }
+    if (selectedSquare && attemptMove(selectedSquare, square)) return;
 
     // Select new square
-    const piece = game.get(square);
-    if (piece && piece.color === game.turn()) {
+    const piece = pieceAt(square);
+    if (piece && piece.color === movingColor) {
       setSelectedSquare(square);
       // Get legal moves for this piece
-      const moves = game.moves({ square, verbose: true }).map((m: any) => m.to);
-      setPossibleMoves(moves);
+      setPossibleMoves(destinationsFrom(square));
     } else {
       setSelectedSquare(null);
       setPossibleMoves([]);
+      // Tapping an empty square clears the queued premoves
+      if (isPremoving && !piece) setPremoves([]);
     }
   };
 
-  const undoMove = () => {
-    const game = gameRef.current;
-    if (game.history().length === 0) return;
-    
-    game.undo();
+  // Drag and Drop - pointer events cover mouse, pen and touch
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // from+to of the last move if it was dropped, so it doesn't replay the slide animation
+  const [droppedMove, setDroppedMove] = useState<string | null>(null);
+
+  const squareFromPoint = (x: number, y: number, size: number): Square | null => {
+    const col = Math.floor(x / (size / 8));
+    const row = Math.floor(y / (size / 8));
+    if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+    return `${displayCols[col]}${displayRows[row]}` as Square;
+  };
+
+  const boardPoint = (e: React.PointerEvent) => {
+    const rect = boardRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top, size: rect.width };
+  };
+
+  // Arrows and circles, drawn with the right button or a long press on touch screens.
+  // Positions in the tree keep theirs; puzzles only for the shown position.
+  const [looseShapes, setLooseShapes] = useState<{ fen: string, shapes: BoardShape[] }>({ fen: '', shapes: [] });
+  const [drawing, setDrawing] = useState<{ pointerId: number, from: Square, to: Square | null, color: ShapeColor } | null>(null);
+  const longPressRef = useRef<{ pointerId: number, x: number, y: number, timer: number } | null>(null);
+
+  const annotatedNode = puzzle ? null : nodeAt(tree, viewPath) ?? null;
+  const drawnShapes = annotatedNode
+    ? annotatedNode.annotation?.shapes ?? []
+    : looseShapes.fen === boardGame.fen() ? looseShapes.shapes : [];
+
+  const setDrawnShapes = (shapes: BoardShape[]) => {
+    if (!annotatedNode) {
+      setLooseShapes({ fen: boardGame.fen(), shapes });
+      return;
+    }
+    setTree((t) => setAnnotation(t, viewPath, { ...annotatedNode.annotation, shapes }));
+  };
+
+  const clearDrawnShapes = () => {
+    if (drawnShapes.length > 0) setDrawnShapes([]);
+  };
+
+  const startDrawing = (pointerId: number, from: Square, color: ShapeColor) => {
+    setDrag(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setDrawing({ pointerId, from, to: from, color });
+  };
+
+  const cancelLongPress = () => {
+    if (!longPressRef.current) return;
+    clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  useEffect(() => cancelLongPress, []);
+
+  const onBoardPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!boardRef.current) return;
+    const { x, y, size } = boardPoint(e);
+    const square = squareFromPoint(x, y, size);
+    if (!square) return;
+
+    if (e.button === 2) {
+      // Right-clicking cancels queued premoves rather than drawing
+      if (premoves.length > 0) {
+        cancelPremoves();
+        return;
+      }
+      e.currentTarget.setPointerCapture(e.pointerId);
+      startDrawing(e.pointerId, square, modifierColor(e, drawColor));
+      return;
+    }
+    if (e.button !== 0) return;
+
+    // A click clears the drawing; on touch screens only a tap does, since holding draws
+    if (e.pointerType === 'mouse') {
+      clearDrawnShapes();
+    } else if (!(selectedSquare && possibleMoves.includes(square))) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      cancelLongPress();
+      const pointerId = e.pointerId;
+      const timer = window.setTimeout(() => {
+        longPressRef.current = null;
+        startDrawing(pointerId, square, drawColor);
+      }, LONG_PRESS_MS);
+      longPressRef.current = { pointerId, x, y, timer };
+    }
+
+    const piece = pieceAt(square);
+    const canDrag = moveInput !== 'click' && canTouchBoard && piece && piece.color === movingColor;
+    if (canDrag) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ from: square, pointerId: e.pointerId, startX: x, startY: y, x, y, size, active: false });
+      return;
+    }
+    if (moveInput !== 'drag') onSquareClick(square);
+  };
+
+  const onBoardPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drawing && e.pointerId === drawing.pointerId) {
+      const { x, y, size } = boardPoint(e);
+      const to = squareFromPoint(x, y, size);
+      if (to !== drawing.to) setDrawing({ ...drawing, to });
+      return;
+    }
+    const press = longPressRef.current;
+    if (press && e.pointerId === press.pointerId) {
+      const { x, y } = boardPoint(e);
+      if (Math.hypot(x - press.x, y - press.y) > DRAG_THRESHOLD_PX) cancelLongPress();
+    }
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    const { x, y } = boardPoint(e);
+    const active = drag.active || Math.hypot(x - drag.startX, y - drag.startY) > DRAG_THRESHOLD_PX;
+    if (active && !drag.active) {
+      setSelectedSquare(drag.from);
+      setPossibleMoves(destinationsFrom(drag.from));
+    }
+    setDrag({ ...drag, x, y, active });
+  };
+
+  const onBoardPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drawing && e.pointerId === drawing.pointerId) {
+      setDrawing(null);
+      if (drawing.to) setDrawnShapes(toggleShape(drawnShapes, { from: drawing.from, to: drawing.to, color: drawing.color }));
+      return;
+    }
+    // Released before the long press kicked in: a tap
+    if (longPressRef.current?.pointerId === e.pointerId) {
+      cancelLongPress();
+      clearDrawnShapes();
+    }
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    setDrag(null);
+
+    // A press without movement is a tap
+    if (!drag.active) {
+      if (moveInput !== 'drag') onSquareClick(drag.from);
+      return;
+    }
+
+    const { x, y } = boardPoint(e);
+    const target = squareFromPoint(x, y, drag.size);
+    if (target && target !== drag.from && attemptMove(drag.from, target)) {
+      setDroppedMove(`${drag.from}${target}`);
+      return;
+    }
+    // Illegal or off-board drop: snap back
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  const onBoardPointerCancel = () => {
+    cancelLongPress();
+    setDrawing(null);
+    setDrag(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  const dragOverSquare = drag?.active ? squareFromPoint(drag.x, drag.y, drag.size) : null;
+  const draggedPiece = drag?.active ? pieceAt(drag.from) : null;
+
+  // Post-game review; bumping the token abandons a review that is still running
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [review, setReview] = useState<GameReview | null>(null);
+  const [reviewProgress, setReviewProgress] = useState<{ done: number; total: number } | null>(null);
+  const reviewTokenRef = useRef(0);
+
+  const startReview = async () => {
+    const token = ++reviewTokenRef.current;
+    setIsReviewOpen(true);
+    setReview(null);
+    setReviewProgress({ done: 0, total: history.length + 1 });
+    goToPly(0);
+    try {
+      const result = await reviewGame(
+        history,
+        (done, total) => {
+          if (token === reviewTokenRef.current) setReviewProgress({ done, total });
+        },
+        () => token !== reviewTokenRef.current,
+        currentVariant
+      );
+      if (result && token === reviewTokenRef.current) setReview(result);
+    } catch (error) {
+      console.error("Game review failed:", error);
+      if (token === reviewTokenRef.current) setIsReviewOpen(false);
+    }
+  };
+
+  const closeReview = () => {
+    reviewTokenRef.current++;
+    setIsReviewOpen(false);
+    setReview(null);
+    setReviewProgress(null);
+  };
+
+  // Evaluation Bar - follows the displayed position, including replays, but would give puzzles away
+  const [evalScore, setEvalScore] = useState<EvalScore | null>(null);
+  const boardFen = boardGame.fen();
+  const evalBarVisible = showEvalBar && !puzzle;
+  useEffect(() => {
+    if (!evalBarVisible) return;
+    let cancelled = false;
+    // Let quick move sequences settle before searching
+    const timer = setTimeout(() => {
+      getEvalScore(boardFen, undefined, currentVariant)
+        .then((score) => {
+          if (!cancelled) setEvalScore(score);
+        })
+        .catch((e) => console.error("Evaluation failed:", e));
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [boardFen, evalBarVisible, currentVariant]);
+
+  // Coach and engine arrows: the suggested move on the live board, or the best line
+  // of the last analysis while its position is shown
+  const hintArrows = useMemo((): HintArrow[] => {
+    if (isLiveBoard && suggestedMove) return [{ from: suggestedMove.from, to: suggestedMove.to, opacity: PV_ARROW_OPACITY[0] }];
+    if (isAnalysisOpen || !analysisResult || analysisFen !== boardFen) return [];
+    const pv: string[] = analysisResult.lines?.[0]?.pv ?? (analysisResult.bestMove ? [analysisResult.bestMove] : []);
+    const game = createGame(currentVariant, analysisFen);
+    const arrows: HintArrow[] = [];
+    for (const [i, san] of pv.slice(0, PV_ARROW_OPACITY.length).entries()) {
+      try {
+        const move: Move = game.move(san);
+        arrows.push({ from: move.from, to: move.to, opacity: PV_ARROW_OPACITY[i] });
+      } catch {
+        break;
+      }
+    }
+    return arrows;
+  }, [isLiveBoard, suggestedMove, isAnalysisOpen, analysisResult, analysisFen, boardFen, currentVariant]);
+
+  // Book continuations from the displayed position
+  const bookMoves = useMemo(
+    () => (isExplorerOpen && currentVariant === 'standard' ? getBookMoves(boardFen) : []),
+    [boardFen, isExplorerOpen, currentVariant]
+  );
+
+  // The bar matches the board's rendered height, which depends on the viewport
+  const boardFrameRef = useRef<HTMLDivElement>(null);
+  const [boardFrameHeight, setBoardFrameHeight] = useState(0);
+  useEffect(() => {
+    const frame = boardFrameRef.current;
+    if (!frame || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => setBoardFrameHeight(frame.offsetHeight));
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, []);
+
+  // Discards the sandbox lines and goes back to the live position
+  const leaveSandbox = () => {
+    if (sandbox.length > 0) setTree((t) => deleteAdded(t, sandbox, historyCount));
+    setSandbox([]);
+    setCursor(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  // Selection, hints and replay state that belong to a single position
+  const clearTransientState = () => {
+    leaveSandbox();
     setSelectedSquare(null);
     setPossibleMoves([]);
     setSuggestedMove(null);
     setCoachTip('');
+    setCursor(null);
+    setPendingPromotion(null);
+    setPuzzle(null);
+    setDrawOffer(null);
+    setResignArmed(false);
+    setRatingChanges(null);
+    setPremoves([]);
+    drawTokenRef.current++;
+    closeReview();
+  };
+
+  // Plays an analysis line into the tree from the analysed position as a sandbox and
+  // shows it after its first move. Moves the tree already had stay when it is left.
+  const playAnalysisLine = (line: AnalysisLine) => {
+    if (puzzle || analysisFen !== boardFen) return;
+    const game = createGame(currentVariant, analysisFen);
+    let root = tree;
+    let path = viewPath;
+    let firstPath: TreePath | null = null;
+    let firstAdded: AddedNode | null = null;
+    for (const san of line.pv) {
+      let move: Move;
+      try {
+        move = game.move(san);
+      } catch {
+        break;
+      }
+      const before = root;
+      ({ root, path } = addMove(root, path, move));
+      firstPath ??= path;
+      if (root !== before) firstAdded ??= { path, move };
+    }
+    if (!firstPath) return;
+    setTree(root);
+    if (firstAdded) setSandbox([...sandbox, firstAdded]);
+    setCursor(samePath(firstPath, mainlinePath(historyCount)) ? null : firstPath);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setIsAnalysisOpen(false);
+  };
+
+  // Rewriting the game's moves is only fair while nobody is playing it out: once it
+  // has ended, or in analysis and untimed hot-seat games, never against the computer or online
+  const canPromote = !puzzle && sandbox.length === 0 && (gameOver || (!isOnline && !engineOpponent && !clock.running));
+
+  // Makes the line through `path` the main line, replaying the game along it
+  const promoteVariation = (path: TreePath) => {
+    if (!canPromote) return;
+    const promoted = promoteLine(tree, path);
+    const game = createGame(currentVariant, startFen);
+    for (const move of mainlineMoves(promoted.root)) game.move(move.san);
+    gameRef.current = game;
+    setTree(promoted.root);
+    setClock((c) => setClockTurn(c, gameTimeControl, gameOver ? null : game.turn(), Date.now()));
+    clearTransientState();
     updateGameState();
+    // A finished game keeps the result it was played to
+    if (gameResult) setGameResult(gameResult);
+    if (promoted.path.length < game.history().length) setCursor(promoted.path);
   };
 
-  const resetGame = () => {
-    const game = gameRef.current;
-    game.reset();
-    setWhiteTime(timeControl * 60);
-    setBlackTime(timeControl * 60);
-    setCoachTip('');
+  const removeVariation = (path: TreePath) => {
+    const deleted = deleteVariation(tree, path);
+    setTree(deleted.root);
+    setCursor(samePath(deleted.path, mainlinePath(historyCount)) ? null : deleted.path);
     setSelectedSquare(null);
     setPossibleMoves([]);
-    setSuggestedMove(null);
+  };
+
+  // Board orientation to go back to when leaving the puzzle trainer
+  const puzzleReturnOrientationRef = useRef<Color>(orientation);
+
+  // Opens the trainer, or moves on to the next puzzle. Leaving a puzzle part way through counts as a miss.
+  const startPuzzle = () => {
+    if (puzzle && puzzle.moves.length > 0) ratePuzzle(puzzle, 'failed');
+    if (!puzzle) {
+      puzzleReturnOrientationRef.current = orientation;
+      setClock((c) => setClockTurn(c, gameTimeControl, null, Date.now()));
+    }
+    const session = startPuzzleSession(pickPuzzle(puzzleStats, puzzle?.puzzle.id));
+    clearTransientState();
+    setPuzzle(session);
+    setOrientation(session.solverColor);
+  };
+
+  const exitPuzzle = () => {
+    if (!puzzle) return;
+    if (puzzle.moves.length > 0) ratePuzzle(puzzle, 'failed');
+    setPuzzle(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setPendingPromotion(null);
+    setOrientation(puzzleReturnOrientationRef.current);
+    // Resume the real game's clock where it was paused
+    if (!gameOver) setClock((c) => setClockTurn(c, gameTimeControl, turn, Date.now()));
+    setNow(Date.now());
+  };
+
+  // Hint selects the piece to move, showing its legal moves
+  const showPuzzleHint = () => {
+    if (!puzzle || !puzzleGame || puzzle.status !== 'playing') return;
+    const { from } = uciToMove(puzzle.puzzle.moves[puzzle.moves.length]);
+    setSelectedSquare(from as Square);
+    setPossibleMoves(puzzleGame.moves({ square: from, verbose: true }).map((m: Move) => m.to));
+    setPuzzle({ ...puzzle, hintUsed: true, wrongMove: null });
+  };
+
+  const showPuzzleSolution = () => {
+    if (!puzzle || puzzle.status !== 'playing') return;
+    setPuzzle({ ...ratePuzzle(puzzle, 'failed'), status: 'revealing', wrongMove: null });
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  const undoMove = () => {
+    const game = gameRef.current;
+    if (game.history().length === 0) return;
+    
+    game.undo();
+    // Against the computer, take back its reply too so it is the player's move again
+    if (engineOpponent && game.turn() === engineOpponent.color && game.history().length > 0) {
+      game.undo();
+    }
+    setClock((c) => setClockTurn(c, gameTimeControl, game.turn(), Date.now()));
+    clearTransientState();
+    updateGameState();
+  };
+
+  const resetGame = () => {
+    if (relayRef.current) leaveOnline();
+    gameRef.current = createGame(variant, variantStartFen(variant, chess960Number));
+    setTree(emptyTree());
+    setGameResult(null);
+    gameHeadersRef.current = { Date: formatPgnDate(new Date()), ...pgnTimeControlTags(timeControl) };
+    const newOpponent = createEngineOpponent();
+    setEngineOpponent(newOpponent);
+    seatPlayers(newOpponent, rated && variant === 'standard');
+    faceHuman(newOpponent);
+    recordIdRef.current = newId();
+    setGameTimeControl(timeControl);
+    setClock(createClock(timeControl, 'w', Date.now()));
+    setNow(Date.now());
+    clearTransientState();
+    updateGameState();
+  };
+
+  // Starts a game from a position built in the editor
+  const startFromPosition = (fen: string, mode: StartMode) => {
+    const game = createGame(variant, fen);
+    gameRef.current = game;
+    setTree(emptyTree());
+    setGameResult(null);
+    const newTimeControl = mode === 'analysis' ? UNTIMED : timeControl;
+    gameHeadersRef.current = {
+      Date: formatPgnDate(new Date()),
+      ...(mode === 'analysis' ? { Event: 'Analysis' } : {}),
+      ...pgnTimeControlTags(newTimeControl),
+    };
+
+    let newOpponent: EngineOpponent | null = null;
+    if (mode === 'computer') {
+      const humanColor: Color = playerSide === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : playerSide;
+      newOpponent = { color: humanColor === 'w' ? 'b' : 'w', level: engineLevel };
+    }
+    setEngineOpponent(newOpponent);
+    // Set-up positions are never rated
+    seatPlayers(newOpponent, false);
+    faceHuman(newOpponent);
+    recordIdRef.current = newId();
+    setGameTimeControl(newTimeControl);
+    setClock(createClock(newTimeControl, game.turn(), Date.now()));
+    setNow(Date.now());
+    setIsEditorOpen(false);
+    clearTransientState();
+    updateGameState();
+  };
+
+  const startNewGame = () => {
+    setPendingResume(null);
+    resetGame();
+  };
+
+  // Restores the saved game by replaying its moves, falling back to a new game if it is corrupt
+  const resumeSavedGame = () => {
+    const saved = pendingResume;
+    const game = saved && restoreGame(saved);
+    setPendingResume(null);
+    if (!saved || !game) {
+      resetGame();
+      return;
+    }
+
+    gameRef.current = game;
+    gameHeadersRef.current = saved.headers;
+    setTree(restoreTree(saved.tree, saved.variant, saved.startFen) ?? emptyTree());
+    setWhiteName(saved.whiteName);
+    setBlackName(saved.blackName);
+    setGameProfiles(saved.profileIds);
+    setGameRated(saved.rated);
+    setEngineOpponent(saved.engineOpponent);
+    setOrientation(saved.orientation);
+    setGameTimeControl(saved.timeControl);
+    // Time spent away from the app isn't charged; the clock restarts now
+    setClock(setClockTurn(saved.clock, saved.timeControl, saved.gameOver ? null : game.turn(), Date.now()));
+    setNow(Date.now());
+    clearTransientState();
+    updateGameState();
+
+    setGameResult(saved.result);
+    // A game that finished before it was saved is already in the history
+    recordIdRef.current = saved.result ? null : newId();
+  };
+
+  // Persist Game - kept in a ref so the page-hide handler always sees the latest state
+  const persistGameRef = useRef(() => {});
+  persistGameRef.current = () => {
+    // Don't overwrite the game that is still being offered for resuming
+    if (pendingResume) return;
+    saveGame({
+      startFen,
+      moves: history.map((m) => m.san),
+      clock: setClockTurn(clock, gameTimeControl, null, Date.now()),
+      timeControl: gameTimeControl,
+      whiteName,
+      blackName,
+      profileIds: gameProfiles,
+      engineOpponent,
+      rated: gameRated,
+      orientation,
+      variant: currentVariant,
+      tree: serializeTree(recordedTree),
+      result: gameResult,
+      headers: gameHeadersRef.current,
+    });
+  };
+
+  useEffect(() => {
+    persistGameRef.current();
+  }, [history, gameResult, engineOpponent, orientation, whiteName, blackName, gameProfiles, gameRated, gameTimeControl, pendingResume, recordedTree]);
+
+  // Mobile browsers may evict the tab without warning once it is hidden
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') persistGameRef.current();
+    };
+    const onPageHide = () => persistGameRef.current();
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', onPageHide);
+    };
+  }, []);
+
+  const buildPgn = () => exportPgn(gameRef.current, {
+    Event: gameRated ? 'Rated Game' : 'Casual Game',
+    Site: 'Grandmaster Chess',
+    ...gameHeadersRef.current,
+    White: displayWhiteName,
+    Black: displayBlackName,
+    ...pgnResultTags(gameResult),
+  }, recordedTree);
+
+  const handleImportPgn = (text: string): string | null => {
+    const result = importPgn(text);
+    if (result.ok === false) return result.error;
+    if (relayRef.current) leaveOnline();
+
+    const { White, Black, ...headers } = result.headers;
+    gameRef.current = result.game;
+    gameHeadersRef.current = headers;
+    setTree(result.tree);
+    setGameResult(null);
+    if (White && White !== '?') setWhiteName(White);
+    if (Black && Black !== '?') setBlackName(Black);
+    setGameProfiles({ w: null, b: null });
+    setGameRated(false);
+    recordIdRef.current = null;
+
+    setEngineOpponent(null);
+    const importedTimeControl = parsePgnTimeControl(headers.TimeControl) || timeControl;
+    setGameTimeControl(importedTimeControl);
+    setClock(createClock(importedTimeControl, result.game.turn(), Date.now()));
+    setNow(Date.now());
+    clearTransientState();
     updateGameState();
+
+    // A decisive or agreed result that the final position doesn't show (e.g. resignation)
+    const declared = parsePgnResult(headers);
+    if (declared && !result.game.isGameOver()) setGameResult(declared);
+    return null;
   };
 
+  // Finished games go to the history once, under the id given when the game started
+  const recordIdRef = useRef<string | null>(newId());
+  useEffect(() => {
+    const id = recordIdRef.current;
+    if (!gameResult || !id || historyCount === 0) return;
+    recordIdRef.current = null;
+    const player = (color: Color): RecordedPlayer => ({
+      name: color === 'w' ? displayWhiteName : displayBlackName,
+      profileId: gameProfiles[color],
+      engineLevel: engineOpponent?.color === color ? engineOpponent.level : null,
+    });
+    const players = { w: player('w'), b: player('b') };
+    const playedAt = Date.now();
+    const rating = gameRated ? rateGame(ratings, players, gameResult, getTimeControlCategory(gameTimeControl), playedAt) : null;
+    if (rating) {
+      setRatings(rating.book);
+      setRatingChanges(rating.changes);
+    }
+    saveGameRecord({
+      id,
+      playedAt,
+      pgn: buildPgn(),
+      result: gameResult,
+      timeControl: gameTimeControl,
+      white: players.w,
+      black: players.b,
+      moveCount: historyCount,
+      online: isOnline,
+      ...(currentVariant !== 'standard' ? { variant: currentVariant } : {}),
+      ...(rating ? { ratingChanges: rating.changes } : {}),
+    });
+  }, [gameResult]);
+
+  // Opens a past game from the history for replaying from the first move. Returns
+  // an error message, or null when it was opened.
+  const openRecordedGame = (record: GameRecord): string | null => {
+    const error = handleImportPgn(record.pgn);
+    if (error) return error;
+    setGameProfiles({ w: record.white.profileId, b: record.black.profileId });
+    setIsHistoryOpen(false);
+    setCursor([]);
+    return null;
+  };
+
+  const addProfile = (name: string) => {
+    const profile = createProfile(name);
+    setProfiles((list) => [...list, profile]);
+    // New profiles fill empty seats first
+    if (!whiteProfileId) setWhiteProfileId(profile.id);
+    else if (!blackProfileId && opponent === 'human') setBlackProfileId(profile.id);
+  };
+
+  // Recorded games keep the name they were played under
+  const deleteProfile = (id: string) => {
+    setProfiles((list) => list.filter((p) => p.id !== id));
+    if (whiteProfileId === id) setWhiteProfileId(null);
+    if (blackProfileId === id) setBlackProfileId(null);
+  };
+
+  // Picking profiles applies straight away while the game hasn't started
+  useEffect(() => {
+    if (historyCount === 0 && !isOnline && !gameOver) seatPlayers(engineOpponent, rated && currentVariant === 'standard' && startFen === new Chess().fen());
+  }, [whiteProfileId, blackProfileId, profiles, rated]);
+
+  // Replaces the game with the relay's move list, on joining and after every reconnect.
+  // The relay only plays standard chess.
+  const loadRoom = (room: RoomState, serverNow: number) => {
+    const game = createGame('standard', room.startFen);
+    for (const san of room.moves) game.move(san);
+    const current = gameRef.current;
+    if (game.fen() !== current.fen() || game.history().length !== current.history().length) {
+      gameRef.current = game;
+      setTree(emptyTree());
+      setGameResult(null);
+      clearTransientState();
+    }
+    setEngineOpponent(null);
+    setGameTimeControl(room.timeControl);
+    setClock(toLocalClock(room.clock, serverNow));
+    setNow(Date.now());
+    setOnline((o) => o && { ...o, code: room.code, names: room.names, connected: room.connected });
+    updateGameState();
+    setDrawOffer(room.drawOffer && { by: room.drawOffer, ply: room.moves.length, status: 'pending' });
+    if (room.ending) endGame(room.ending);
+  };
+
+  // Kept in a ref so the socket callbacks always see the latest state
+  const relayMessageRef = useRef<(message: ServerMessage) => void>(() => {});
+  relayMessageRef.current = (message) => {
+    switch (message.type) {
+      case 'seated':
+        gameHeadersRef.current = { Date: formatPgnDate(new Date()), Event: 'Online Game', ...pgnTimeControlTags(message.room.timeControl) };
+        setOnline((o) => o && { ...o, color: message.color, error: null });
+        setOrientation(message.color);
+        setGameProfiles(message.color === 'w' ? { w: whiteProfileId, b: null } : { w: null, b: whiteProfileId });
+        setGameRated(false);
+        loadRoom(message.room, message.serverNow);
+        break;
+      case 'state':
+        loadRoom(message.room, message.serverNow);
+        break;
+      case 'move': {
+        const played = gameRef.current.history();
+        if (message.ply === played.length) {
+          // The opponent's move, checked again locally before it is shown
+          if (!applyMove(message.move)) {
+            relayRef.current?.send({ type: 'sync' });
+            break;
+          }
+        } else if (message.ply !== played.length - 1 || played[message.ply] !== message.san) {
+          relayRef.current?.send({ type: 'sync' });
+          break;
+        }
+        // Either way the server's clock, stamped when it accepted the move, wins
+        setClock(toLocalClock(message.clock, message.serverNow));
+        setOnline((o) => o && { ...o, error: null });
+        break;
+      }
+      case 'drawOffer':
+        setDrawOffer((offer) => {
+          if (message.color) return { by: message.color, ply: gameRef.current.history().length, status: 'pending' };
+          // Withdrawn from our side means the opponent said no
+          return offer?.by === online?.color && offer.status === 'pending' ? { ...offer, status: 'declined' } : null;
+        });
+        break;
+      case 'ended':
+        setClock(toLocalClock(message.clock, message.serverNow));
+        endGame(message.ending);
+        break;
+      case 'presence':
+        setOnline((o) => o && { ...o, connected: message.connected });
+        break;
+      case 'error':
+        setOnline((o) => o && { ...o, error: message.message });
+        break;
+    }
+  };
+
+  const connectOnline = (url: string, hello: ClientMessage) => {
+    relayRef.current?.close();
+    recordIdRef.current = newId();
+    setOnline({ code: null, color: null, status: 'connecting', names: { w: null, b: null }, connected: { w: false, b: false }, error: null });
+    relayRef.current = connectRelay(
+      url,
+      hello,
+      (message) => relayMessageRef.current(message),
+      (status) => setOnline((o) => o && {
+        ...o,
+        status,
+        error: status === 'closed' && !o.code ? `Could not reach the relay at ${url}.` : o.error,
+      })
+    );
+  };
+
+  const createOnlineGame = (url: string, name: string, side: OnlineSide) =>
+    connectOnline(url, { type: 'create', name, color: side, timeControl });
+
+  const joinOnlineGame = (url: string, name: string, code: string) =>
+    connectOnline(url, { type: 'join', code, name });
+
+  // The game stays on the board and carries on as hot-seat
+  const leaveOnline = () => {
+    relayRef.current?.close();
+    relayRef.current = null;
+    setOnline(null);
+    setIsOnlineOpen(false);
+  };
+
+  // Close the lobby once both players are seated
+  const onlineReady = !!online?.names.w && !!online?.names.b;
+  useEffect(() => {
+    if (onlineReady) setIsOnlineOpen(false);
+  }, [onlineReady]);
+
+  useEffect(() => () => relayRef.current?.close(), []);
+
+  // Resign / Draw - made by the side to move in hot-seat, otherwise by this device's player
+  const actingColor: Color = isOnline ? online!.color! : engineOpponent ? (engineOpponent.color === 'w' ? 'b' : 'w') : turn;
+  const canEndGame = !gameOver && !puzzle && (!isOnline || (online!.status === 'open' && onlineReady));
+  const nameOf = (color: Color) => (color === 'w' ? displayWhiteName : displayBlackName);
+  const drawTokenRef = useRef(0);
+
+  const agreeDraw = () => endGame({ winner: null, termination: 'agreement' });
+
+  const handleResign = () => {
+    if (!resignArmed) {
+      setResignArmed(true);
+      return;
+    }
+    setResignArmed(false);
+    // Online the relay confirms it, so both devices end the game together
+    if (isOnline) relayRef.current?.send({ type: 'resign' });
+    else endGame({ winner: actingColor === 'w' ? 'b' : 'w', termination: 'resignation' });
+  };
+
+  useEffect(() => {
+    if (!resignArmed) return;
+    const timer = setTimeout(() => setResignArmed(false), 3000);
+    return () => clearTimeout(timer);
+  }, [resignArmed]);
+
+  const offerDraw = async () => {
+    const by = actingColor;
+    const ply = gameRef.current.history().length;
+    setDrawOffer({ by, ply, status: 'pending' });
+    if (isOnline) {
+      relayRef.current?.send({ type: 'offerDraw' });
+      return;
+    }
+    // In hot-seat the opponent answers on this device
+    if (!engineOpponent) return;
+
+    const token = ++drawTokenRef.current;
+    const fen = gameRef.current.fen();
+    let accepted = false;
+    try {
+      accepted = await engineAcceptsDraw(fen, engineOpponent.color, currentVariant);
+    } catch (e) {
+      console.error("Draw offer failed:", e);
+    }
+    // The game may have moved on or been reset while the engine thought
+    if (token !== drawTokenRef.current || gameRef.current.fen() !== fen) return;
+    if (accepted) agreeDraw();
+    else setDrawOffer({ by, ply, status: 'declined' });
+  };
+
+  const answerDraw = (accept: boolean) => {
+    if (!drawOffer) return;
+    if (isOnline) relayRef.current?.send({ type: 'answerDraw', accept });
+    else if (accept) agreeDraw();
+    else setDrawOffer({ ...drawOffer, status: 'declined' });
+  };
+
+  // Moving instead of answering declines an offer, and the offerer may try again after that
+  useEffect(() => {
+    if (!drawOffer) return;
+    const last = history[history.length - 1];
+    if (history.length < drawOffer.ply || (history.length > drawOffer.ply && last.color !== drawOffer.by)) {
+      setDrawOffer(null);
+    }
+  }, [history]);
+
   const handleAnalyze = async () => {
     setIsAnalysisOpen(true);
     setAnalysisLoading(true);
-    const game = gameRef.current;
-    const result = await analyzeBoard(game.fen(), game.turn());
+    // Coach looks at whatever the board shows, variations included
+    setAnalysisFen(boardFen);
+    const result = await analysisProvider.explainPosition(boardFen, currentVariant);
     setAnalysisResult(result);
     setAnalysisLoading(false);
   };
 
   const handleSuggestMove = async () => {
-    if (gameOver) return;
+    if (gameOver || isEngineTurn) return;
     setSuggestionLoading(true);
     setSuggestedMove(null);
     
     const game = gameRef.current;
-    const result = await analyzeBoard(game.fen(), game.turn());
-    
-    if (result.bestMove) {
+    const { bestMove, illegalMove } = await analysisProvider.suggestMove(game.fen(), currentVariant);
+
+    if (illegalMove) {
+      setAnalysisFen(game.fen());
+      setAnalysisResult({
+        evaluation: 'No hint',
+        explanation: 'Try again, or switch Hint & Coach to the local engine in settings.',
+        illegalMove,
+      });
+      setIsAnalysisOpen(true);
+    } else if (bestMove) {
       // Find the actual move object to get from/to coordinates from SAN
       const moves = game.moves({ verbose: true });
-      const bestMoveObj = moves.find((m: any) => m.san === result.bestMove);
+      const bestMoveObj = moves.find((m: any) => m.san === bestMove);
       
       if (bestMoveObj) {
-        setSuggestedMove({ from: bestMoveObj.from, to: bestMoveObj.to });
+        setSuggestedMove({ from: bestMoveObj.from, to: bestMoveObj.to, promotion: bestMoveObj.promotion });
       }
     }
     setSuggestionLoading(false);
@@ -315,7 +1616,7 @@ const App: React.FC = () => {
   const getPlayerStatus = (playerColor: Color) => {
     const isTurn = turn === playerColor;
     const isPlayerInCheck = isCheck && isTurn;
-    const isWinner = gameOver && gameStatus.includes(playerColor === 'w' ? 'White wins' : 'Black wins');
+    const isWinner = gameResult?.winner === playerColor;
     const timeLeft = playerColor === 'w' ? whiteTime : blackTime;
     
     return { isTurn, isPlayerInCheck, isWinner, timeLeft };
@@ -367,17 +1668,42 @@ const App: React.FC = () => {
       
       {/* Top Bar */}
       <header className="shrink-0 flex items-center justify-between px-3 py-2 bg-slate-900 border-b border-slate-800 z-10">
-        <div className="flex items-center gap-2">
-          <Trophy className="text-yellow-500" size={18} />
-          <h1 className="text-base font-bold tracking-tight">Grandmaster</h1>
+        <div className="flex items-center gap-2 min-w-0">
+          <Trophy className="text-yellow-500 shrink-0" size={18} />
+          <div className="min-w-0">
+            <h1 className="text-base font-bold tracking-tight leading-tight">Grandmaster</h1>
+            {currentVariant !== 'standard' && !puzzle && (
+              <p className="text-[10px] text-indigo-300 truncate leading-tight">{getVariantInfo(currentVariant).label}</p>
+            )}
+            {currentOpening && (
+              <p className="text-[10px] text-slate-400 truncate leading-tight" title={`${currentOpening.eco} ${currentOpening.name}`}>
+                <span className="font-mono text-slate-500">{currentOpening.eco}</span> {currentOpening.name}
+              </p>
+            )}
+          </div>
         </div>
-        <div className="flex items-center gap-2">
-           <button onClick={() => setOrientation(o => o === 'w' ? 'b' : 'w')} className="p-2 text-slate-400 hover:text-white transition-colors">
+        <div className="flex items-center gap-0.5 shrink-0">
+           <button onClick={() => setOrientation(o => o === 'w' ? 'b' : 'w')} disabled={isOnline} className="p-1.5 text-slate-400 hover:text-white transition-colors disabled:opacity-40">
               <RotateCcw size={18} className="rotate-90"/>
            </button>
+           <button onClick={() => setIsOnlineOpen(true)} className={`p-1.5 transition-colors ${isOnline ? 'text-emerald-400 hover:text-emerald-300' : 'text-slate-400 hover:text-white'}`}>
+              <Wifi size={18} />
+           </button>
+           <button onClick={puzzle ? exitPuzzle : startPuzzle} disabled={isOnline} className={`p-1.5 transition-colors disabled:opacity-40 ${puzzle ? 'text-indigo-400 hover:text-indigo-300' : 'text-slate-400 hover:text-white'}`}>
+              <Puzzle size={18} />
+           </button>
+           <button onClick={() => setIsExplorerOpen((open) => !open)} className={`p-1.5 transition-colors ${isExplorerOpen ? 'text-indigo-400 hover:text-indigo-300' : 'text-slate-400 hover:text-white'}`}>
+              <BookOpen size={18} />
+           </button>
+           <button onClick={() => setIsEditorOpen(true)} disabled={isOnline} className="p-1.5 text-slate-400 hover:text-white transition-colors disabled:opacity-40">
+              <LayoutGrid size={18} />
+           </button>
+           <button onClick={() => setIsPgnOpen(true)} className="p-1.5 text-slate-400 hover:text-white transition-colors">
+              <FileText size={18} />
+           </button>
            <button 
             onClick={() => setIsSettingsOpen(true)}
-            className="p-2 text-slate-400 hover:text-white transition-colors"
+            className="p-1.5 text-slate-400 hover:text-white transition-colors"
            >
               <Settings size={18} />
            </button>
@@ -391,72 +1717,111 @@ const App: React.FC = () => {
              ${opponentStatus.isTurn ? 'bg-slate-700 border-indigo-400 shadow-[0_0_10px_rgba(129,140,248,0.3)]' : 'bg-slate-800 border-slate-700'}
              ${opponentStatus.isPlayerInCheck ? 'border-red-500 shadow-[0_0_15px_rgba(239,68,68,0.4)] animate-pulse' : ''}
            `}>
-             <Users size={16} className="text-slate-400"/>
+             {engineOpponent?.color === opponentColor ? (
+               <Cpu size={16} className={`text-slate-400 ${engineThinking ? 'animate-pulse' : ''}`}/>
+             ) : (
+               <Users size={16} className="text-slate-400"/>
+             )}
            </div>
            <div>
              <div className="flex items-center gap-2">
                 <p className={`font-semibold text-xs sm:text-sm ${opponentStatus.isTurn ? 'text-white' : 'text-slate-400'}`}>
                     {opponentColor === 'w' ? displayWhiteName : displayBlackName}
+                    {displayRating(opponentColor) && <span className="ml-1 font-normal text-slate-500">({displayRating(opponentColor)})</span>}
                 </p>
+                {checksGiven && (
+                    <span title="Checks given" className="text-[9px] sm:text-[10px] font-mono font-bold bg-red-500/10 text-red-400 px-1.5 py-0.5 rounded">
+                        +{checksGiven[opponentColor]}
+                    </span>
+                )}
                 {opponentStatus.isPlayerInCheck && !gameOver && (
                     <span className="flex items-center gap-1 text-[9px] sm:text-[10px] font-bold uppercase tracking-wide bg-red-500/20 text-red-400 px-1.5 py-0.5 rounded border border-red-500/30 animate-pulse">
                         <AlertTriangle size={10} /> Check
                     </span>
                 )}
+                {opponentStatus.isWinner && (
+                    <span className="flex items-center gap-1 text-[9px] sm:text-[10px] font-bold uppercase tracking-wide bg-yellow-500/20 text-yellow-400 px-1.5 py-0.5 rounded border border-yellow-500/30">
+                        <Trophy size={10} /> Winner
+                    </span>
+                )}
              </div>
              <p className="text-[10px] sm:text-xs text-slate-500">{opponentStatus.isTurn ? 'Thinking...' : 'Waiting'}</p>
            </div>
         </div>
         
         {/* Opponent Timer */}
-        <TimerDisplay 
-          time={opponentStatus.timeLeft} 
-          isTurn={opponentStatus.isTurn && !gameOver} 
-          isLowTime={opponentStatus.timeLeft < 60} 
-        />
+        {!gameTimeControl.untimed && (
+          <TimerDisplay 
+            time={opponentStatus.timeLeft} 
+            isTurn={opponentStatus.isTurn && !gameOver} 
+            isLowTime={opponentStatus.timeLeft < 60} 
+          />
+        )}
       </div>
 
       {/* Chess Board Container */}
       {/* flex-1 with min-h-0 is critical for letting the board shrink in height */}
-      <div className="flex-1 flex items-center justify-center w-full min-h-0 p-2 overflow-hidden">
-        <div className="relative aspect-square max-h-full max-w-full shadow-2xl rounded-sm overflow-hidden border-4 border-slate-800">
+      <div
+        onPointerDown={(e) => {
+          // Tapping the empty area around the board clears the premoves too
+          if (e.target === e.currentTarget && premoves.length > 0) cancelPremoves();
+        }}
+        className="flex-1 flex items-center justify-center w-full min-h-0 p-2 overflow-hidden"
+      >
+        {evalBarVisible && (
+          <div className="shrink-0 w-3 sm:w-4 mr-1.5" style={{ height: boardFrameHeight || undefined }}>
+            <EvalBar score={evalScore} orientation={orientation} />
+          </div>
+        )}
+        <div
+          ref={boardFrameRef}
+          className={`relative aspect-square max-h-full ${evalBarVisible ? 'max-w-[calc(100%-1.5rem)] sm:max-w-[calc(100%-1.75rem)]' : 'max-w-full'} shadow-2xl rounded-sm overflow-hidden border-4 border-slate-800`}
+        >
             {/* Grid */}
-            <div className="grid grid-cols-8 grid-rows-8 w-full h-full">
+            <div
+              ref={boardRef}
+              onPointerDown={onBoardPointerDown}
+              onPointerMove={onBoardPointerMove}
+              onPointerUp={onBoardPointerUp}
+              onPointerCancel={onBoardPointerCancel}
+              onContextMenu={(e) => e.preventDefault()}
+              className="grid grid-cols-8 grid-rows-8 w-full h-full touch-none"
+            >
               {displayRows.map((row) => (
                 displayCols.map((col, colIndex) => {
                   const square = `${col}${row}` as Square;
                   const isBlackSquare = (boardRows.indexOf(row) + boardCols.indexOf(col)) % 2 === 1; 
-                  const game = gameRef.current;
-                  const piece = game.get(square);
+                  const piece = premovePieces ? premovePieces[square] : boardGame.get(square);
                   
                   const isSelected = selectedSquare === square;
                   const isPossibleMove = possibleMoves.includes(square);
-                  const isLastMoveFrom = lastMove?.from === square;
-                  const isLastMoveTo = lastMove?.to === square;
+                  const isLastMoveFrom = boardLastMove?.from === square;
+                  const isLastMoveTo = boardLastMove?.to === square;
                   
-                  const isSuggestedFrom = suggestedMove?.from === square;
-                  const isSuggestedTo = suggestedMove?.to === square;
+                  const isWrongMove = puzzle?.wrongMove?.from === square || puzzle?.wrongMove?.to === square;
+                  const isPremoveSquare = !!premovePieces && premoves.some((m) => m.from === square || m.to === square);
 
-                  const isKing = piece?.type === 'k' && piece?.color === turn;
-                  const isKingInCheck = isCheck && isKing;
+                  const isKing = piece?.type === 'k' && piece?.color === boardTurn;
+                  const isKingInCheck = boardInCheck && isKing;
 
                   // Compute background color
                   let bgColor = getThemeColors(isBlackSquare);
                   
                   // Overlays
                   if (isSelected) bgColor = 'bg-yellow-200/80'; 
+                  else if (dragOverSquare === square) bgColor = isBlackSquare ? 'bg-indigo-400/70' : 'bg-indigo-200/80';
+                  else if (isPremoveSquare) bgColor = isBlackSquare ? 'bg-sky-700/70' : 'bg-sky-300/80';
+                  else if (isWrongMove) bgColor = isBlackSquare ? 'bg-red-600/70' : 'bg-red-300/80';
                   else if (isLastMoveFrom || isLastMoveTo) bgColor = isBlackSquare ? 'bg-yellow-600/60' : 'bg-yellow-200/60';
                   
-                  // Suggestion Highlight
-                  const suggestionHighlight = (isSuggestedFrom || isSuggestedTo) ? 'ring-inset ring-4 ring-indigo-500' : '';
-
                   // Calculate animation props if this piece just arrived
                   let animationOffset = null;
-                  if (isLastMoveTo && lastMove) {
-                     const fromRowIndex = displayRows.indexOf(parseInt(lastMove.from[1]));
-                     const fromColIndex = displayCols.indexOf(lastMove.from[0]);
-                     const toRowIndex = displayRows.indexOf(parseInt(lastMove.to[1]));
-                     const toColIndex = displayCols.indexOf(lastMove.to[0]);
+                  const wasDropped = !isViewingHistory && droppedMove === `${boardLastMove?.from}${boardLastMove?.to}`;
+                  if (isLastMoveTo && boardLastMove && !wasDropped) {
+                     const fromRowIndex = displayRows.indexOf(parseInt(boardLastMove.from[1]));
+                     const fromColIndex = displayCols.indexOf(boardLastMove.from[0]);
+                     const toRowIndex = displayRows.indexOf(parseInt(boardLastMove.to[1]));
+                     const toColIndex = displayCols.indexOf(boardLastMove.to[0]);
                      
                      // If we found the squares in the current display grid
                      if (fromRowIndex !== -1 && toRowIndex !== -1) {
@@ -470,8 +1835,7 @@ const App: React.FC = () => {
                   return (
                     <div 
                       key={square} 
-                      onClick={() => onSquareClick(square)}
-                      className={`relative flex items-center justify-center w-full h-full cursor-pointer ${bgColor} ${suggestionHighlight} transition-colors duration-75`}
+                      className={`relative flex items-center justify-center w-full h-full cursor-pointer ${bgColor} transition-colors duration-75`}
                     >
                       {/* Rank/File Labels - Hidden on very small screens? No, just made tiny */}
                       {colIndex === 0 && orientation === 'w' && (
@@ -491,16 +1855,12 @@ const App: React.FC = () => {
                             key={`${square}-${piece.type}-${piece.color}`} // Key ensures remount on capture/change, but animation depends on this being a "new" arrival at this square
                             type={piece.type} 
                             color={piece.color}
-                            isSelected={isSelected}
+                            isSelected={isSelected && !drag?.active}
+                            isDragging={drag?.active && drag.from === square}
                             animateFrom={animationOffset}
                         />
                       )}
                       
-                      {/* Suggestion Marker for destination if empty */}
-                      {isSuggestedTo && !piece && (
-                         <div className="absolute w-2 h-2 sm:w-3 sm:h-3 bg-indigo-500 rounded-full animate-pulse" />
-                      )}
-
                       {/* Check Indicator (King Halo) */}
                       {isKingInCheck && (
                          <div className="absolute inset-0 z-10">
@@ -522,27 +1882,205 @@ const App: React.FC = () => {
               ))}
             </div>
             
+            {/* Arrows and circles */}
+            <BoardShapes
+              shapes={drawnShapes}
+              hints={hintArrows}
+              preview={drawing?.to ? { from: drawing.from, to: drawing.to, color: drawing.color } : null}
+              orientation={orientation}
+            />
+
+            {/* Dragged Piece */}
+            {draggedPiece && drag && (
+              <div
+                className="absolute z-40 pointer-events-none"
+                style={{
+                  width: '12.5%',
+                  height: '12.5%',
+                  left: drag.x,
+                  top: drag.y,
+                  transform: 'translate(-50%, -50%) scale(1.2)',
+                }}
+              >
+                <ChessPiece type={draggedPiece.type} color={draggedPiece.color} />
+              </div>
+            )}
+
+            {/* Promotion Picker */}
+            {pendingPromotion && (
+              <PromotionPicker
+                color={boardTurn}
+                column={displayCols.indexOf(pendingPromotion.to[0])}
+                row={displayRows.indexOf(parseInt(pendingPromotion.to[1]))}
+                suggested={
+                  suggestedMove?.from === pendingPromotion.from && suggestedMove?.to === pendingPromotion.to
+                    ? suggestedMove.promotion
+                    : undefined
+                }
+                onSelect={onPromotionSelect}
+                onCancel={cancelPromotion}
+              />
+            )}
+
             {/* Game Over Overlay */}
-            {gameOver && (
+            {gameOver && isLiveBoard && !isReviewOpen && (
               <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/70 backdrop-blur-sm animate-fade-in">
                 <div className="bg-slate-900 border border-slate-700 p-4 sm:p-6 rounded-2xl shadow-2xl text-center max-w-[80%]">
                   <Trophy className="mx-auto text-yellow-500 mb-2" size={24} />
                   <h2 className="text-lg sm:text-xl font-bold text-white mb-1">Game Over</h2>
-                  <p className="text-slate-300 mb-4 sm:mb-6 text-xs sm:text-sm">{gameStatus}</p>
-                  <button 
-                    onClick={resetGame}
-                    className="px-4 py-2 sm:px-6 sm:py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-semibold shadow-lg shadow-indigo-900/30 transition-all active:scale-95 text-sm"
-                  >
-                    Start New Game
-                  </button>
+                  <p className="text-slate-300 mb-4 sm:mb-6 text-xs sm:text-sm">
+                    {describeGameResult(gameResult!, { w: displayWhiteName, b: displayBlackName })}
+                  </p>
+                  {ratingChanges && (
+                    <div className="-mt-2 mb-4 sm:mb-6 space-y-0.5 text-xs font-mono">
+                      {(['w', 'b'] as const).map((color) => {
+                        const change = ratingChanges[color];
+                        if (!change) return null;
+                        const diff = change.after - change.before;
+                        return (
+                          <p key={color} className="text-slate-400">
+                            {color === 'w' ? displayWhiteName : displayBlackName} {change.after}{change.provisional ? '?' : ''}{' '}
+                            <span className={diff > 0 ? 'text-emerald-400' : diff < 0 ? 'text-red-400' : 'text-slate-500'}>
+                              ({diff >= 0 ? '+' : ''}{diff})
+                            </span>
+                          </p>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <div className="flex flex-col gap-2">
+                    <button 
+                      onClick={resetGame}
+                      className="px-4 py-2 sm:px-6 sm:py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-semibold shadow-lg shadow-indigo-900/30 transition-all active:scale-95 text-sm"
+                    >
+                      Start New Game
+                    </button>
+                    {historyCount > 0 && (
+                      <button
+                        onClick={startReview}
+                        className="flex items-center justify-center gap-2 px-4 py-2 sm:px-6 sm:py-2.5 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-medium transition-all active:scale-95 text-sm"
+                      >
+                        <LineChart size={16} /> Review Game
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             )}
         </div>
       </div>
 
+      {/* Move List */}
+      <div className="shrink-0 px-3 pb-2 space-y-2">
+        {isReviewOpen && (
+          <GameReviewPanel
+            review={review}
+            progress={reviewProgress}
+            currentPly={branchPly(viewPath)}
+            whiteName={displayWhiteName}
+            blackName={displayBlackName}
+            onSelectPly={goToPly}
+            onClose={closeReview}
+          />
+        )}
+        {isOnline && (
+          <div className="flex items-center justify-between gap-2 px-1">
+            <span className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-emerald-400 min-w-0">
+              <Wifi size={14} className="shrink-0" /> Online · {online!.code}
+              <span className="normal-case tracking-normal font-medium truncate">
+                {online!.error ? (
+                  <span className="text-red-400">{online!.error}</span>
+                ) : online!.status !== 'open' ? (
+                  <span className="text-amber-400 animate-pulse">Reconnecting...</span>
+                ) : onlineReady && !online!.connected[online!.color === 'w' ? 'b' : 'w'] ? (
+                  <span className="text-amber-400">Opponent offline</span>
+                ) : null}
+              </span>
+            </span>
+            <button
+              onClick={leaveOnline}
+              className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 transition-colors"
+            >
+              <X size={14} /> Leave
+            </button>
+          </div>
+        )}
+        {isExplorerOpen && !puzzle && (
+          <OpeningExplorer
+            opening={currentOpening}
+            moves={bookMoves}
+            canPlay={canInteract}
+            onPlayMove={(move) => humanMove({ from: move.from, to: move.to, promotion: move.promotion })}
+            onClose={() => setIsExplorerOpen(false)}
+          />
+        )}
+        {sandbox.length > 0 && !puzzle && (
+          <div className="flex items-center justify-between px-1">
+            <span className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-amber-400">
+              <FlaskConical size={14} /> Sandbox
+            </span>
+            <button
+              onClick={leaveSandbox}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 transition-colors"
+            >
+              <X size={14} /> Back to Game
+            </button>
+          </div>
+        )}
+        {puzzle ? (
+          <PuzzlePanel
+            session={puzzle}
+            stats={puzzleStats}
+            onShowSolution={showPuzzleSolution}
+            onNext={startPuzzle}
+            onExit={exitPuzzle}
+          />
+        ) : (
+          <MoveList
+            tree={tree}
+            livePly={historyCount}
+            currentPath={viewPath}
+            onSelect={goToPath}
+            classifications={review?.moves.map((m) => m.classification)}
+            onAnnotate={(path, annotation) => setTree((t) => setAnnotation(t, path, annotation))}
+            onPromote={canPromote ? promoteVariation : undefined}
+            onDelete={removeVariation}
+          />
+        )}
+      </div>
+
       {/* Player Info (Self) & Coach Tip */}
       <div className="shrink-0 flex flex-col gap-2 px-3 pb-2 z-10">
+        {drawOffer && !gameOver && (
+           <div className="bg-slate-800/80 border border-slate-700 p-2 rounded-xl flex gap-3 items-center animate-fade-in mb-1">
+              <div className="p-1 bg-emerald-500/10 rounded-lg shrink-0">
+                <Handshake size={14} className="text-emerald-400" />
+              </div>
+              <p className="flex-1 text-xs sm:text-sm text-slate-300 leading-snug">
+                {drawOffer.status === 'declined'
+                  ? `${nameOf(drawOffer.by === 'w' ? 'b' : 'w')} declines the draw.`
+                  : engineOpponent || (isOnline && drawOffer.by === online!.color)
+                  ? `Draw offered, waiting for ${nameOf(drawOffer.by === 'w' ? 'b' : 'w')}...`
+                  : `${nameOf(drawOffer.by)} offers a draw.`}
+              </p>
+              {drawOffer.status === 'pending' && !engineOpponent && (!isOnline || drawOffer.by !== online!.color) && (
+                <div className="flex gap-1.5 shrink-0">
+                  <button
+                    onClick={() => answerDraw(true)}
+                    className="px-2.5 py-1 rounded-lg text-xs font-semibold text-white bg-emerald-600 hover:bg-emerald-500 transition-colors"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => answerDraw(false)}
+                    className="px-2.5 py-1 rounded-lg text-xs font-medium text-slate-300 bg-slate-700 hover:bg-slate-600 transition-colors"
+                  >
+                    Decline
+                  </button>
+                </div>
+              )}
+           </div>
+        )}
         {coachTip && (
            <div className="bg-slate-800/80 border border-slate-700 p-2 rounded-xl flex gap-3 items-start animate-fade-in mb-1">
               <div className="p-1 bg-indigo-500/10 rounded-lg shrink-0">
@@ -559,39 +2097,57 @@ const App: React.FC = () => {
                 ${playerStatus.isTurn ? 'bg-indigo-600 shadow-indigo-900/20' : 'bg-slate-800'}
                 ${playerStatus.isPlayerInCheck ? 'ring-2 ring-red-500 animate-pulse' : ''}
              `}>
-               <Users size={16} className="text-white"/>
+               {engineOpponent?.color === playerColor ? (
+                 <Cpu size={16} className={`text-white ${engineThinking ? 'animate-pulse' : ''}`}/>
+               ) : (
+                 <Users size={16} className="text-white"/>
+               )}
              </div>
              <div>
                <div className="flex items-center gap-2">
                   <p className={`font-semibold text-xs sm:text-sm ${playerStatus.isTurn ? 'text-white' : 'text-slate-400'}`}>
                       {playerColor === 'w' ? displayWhiteName : displayBlackName}
+                      {displayRating(playerColor) && <span className="ml-1 font-normal text-slate-500">({displayRating(playerColor)})</span>}
                   </p>
+                  {checksGiven && (
+                      <span title="Checks given" className="text-[9px] sm:text-[10px] font-mono font-bold bg-red-500/10 text-red-400 px-1.5 py-0.5 rounded">
+                          +{checksGiven[playerColor]}
+                      </span>
+                  )}
                   {playerStatus.isPlayerInCheck && !gameOver && (
                       <span className="flex items-center gap-1 text-[9px] sm:text-[10px] font-bold uppercase tracking-wide bg-red-500/20 text-red-400 px-1.5 py-0.5 rounded border border-red-500/30 animate-pulse">
                           <AlertTriangle size={10} /> Check
                       </span>
                   )}
+                  {playerStatus.isWinner && (
+                      <span className="flex items-center gap-1 text-[9px] sm:text-[10px] font-bold uppercase tracking-wide bg-yellow-500/20 text-yellow-400 px-1.5 py-0.5 rounded border border-yellow-500/30">
+                          <Trophy size={10} /> Winner
+                      </span>
+                  )}
                </div>
                <p className="text-[10px] sm:text-xs text-slate-500">{playerStatus.isTurn ? 'Your Turn' : 'Waiting'}</p>
              </div>
            </div>
            
            {/* Player Timer */}
-           <TimerDisplay 
-             time={playerStatus.timeLeft} 
-             isTurn={playerStatus.isTurn && !gameOver} 
-             isLowTime={playerStatus.timeLeft < 60} 
-           />
+           {!gameTimeControl.untimed && (
+             <TimerDisplay 
+               time={playerStatus.timeLeft} 
+               isTurn={playerStatus.isTurn && !gameOver} 
+               isLowTime={playerStatus.timeLeft < 60} 
+             />
+           )}
         </div>
       </div>
 
       {/* Controls */}
       <div className="shrink-0 px-3 pb-4 pt-1 z-10 safe-area-bottom">
-        <div className="grid grid-cols-4 gap-2 sm:gap-3">
+        <div className="grid grid-cols-6 gap-1.5 sm:gap-3">
            {/* Reset */}
            <button 
              onClick={resetGame}
-             className="flex flex-col items-center justify-center gap-1 p-2 sm:p-3 rounded-xl sm:rounded-2xl bg-slate-900 hover:bg-slate-800 border border-slate-800 transition-all active:scale-95"
+             disabled={!!puzzle || isOnline}
+             className="flex flex-col items-center justify-center gap-1 p-2 sm:p-3 rounded-xl sm:rounded-2xl bg-slate-900 hover:bg-slate-800 border border-slate-800 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
            >
              <RotateCcw size={18} className="text-slate-400" />
              <span className="text-[9px] sm:text-[10px] font-medium text-slate-500">Reset</span>
@@ -600,9 +2156,9 @@ const App: React.FC = () => {
            {/* Takeback */}
            <button 
              onClick={undoMove}
-             disabled={historyCount === 0 || gameOver}
+             disabled={historyCount === 0 || gameOver || !!puzzle || isOnline}
              className={`flex flex-col items-center justify-center gap-1 p-2 sm:p-3 rounded-xl sm:rounded-2xl border border-slate-800 transition-all active:scale-95
-               ${historyCount > 0 && !gameOver ? 'bg-slate-900 hover:bg-slate-800 cursor-pointer' : 'bg-slate-900/50 opacity-50 cursor-not-allowed'}
+               ${historyCount > 0 && !gameOver && !puzzle && !isOnline ? 'bg-slate-900 hover:bg-slate-800 cursor-pointer' : 'bg-slate-900/50 opacity-50 cursor-not-allowed'}
              `}
            >
              <ChevronLeft size={18} className="text-slate-400" />
@@ -611,8 +2167,8 @@ const App: React.FC = () => {
 
            {/* Hint / Suggest Best Move */}
            <button 
-             onClick={handleSuggestMove}
-             disabled={gameOver || suggestionLoading}
+             onClick={puzzle ? showPuzzleHint : handleSuggestMove}
+             disabled={puzzle ? puzzle.status !== 'playing' : gameOver || suggestionLoading || isEngineTurn || isOnline}
              className={`flex flex-col items-center justify-center gap-1 p-2 sm:p-3 rounded-xl sm:rounded-2xl border border-slate-800 transition-all active:scale-95
                 bg-slate-900 hover:bg-slate-800 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed
              `}
@@ -625,10 +2181,34 @@ const App: React.FC = () => {
              <span className="text-[9px] sm:text-[10px] font-medium text-slate-500">Hint</span>
            </button>
 
+           {/* Offer Draw */}
+           <button
+             onClick={offerDraw}
+             disabled={!canEndGame || drawOffer?.status === 'pending' || drawOffer?.by === actingColor}
+             className="flex flex-col items-center justify-center gap-1 p-2 sm:p-3 rounded-xl sm:rounded-2xl bg-slate-900 hover:bg-slate-800 border border-slate-800 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+           >
+             <Handshake size={18} className="text-slate-400" />
+             <span className="text-[9px] sm:text-[10px] font-medium text-slate-500">Draw</span>
+           </button>
+
+           {/* Resign - second tap confirms */}
+           <button
+             onClick={handleResign}
+             disabled={!canEndGame}
+             className={`flex flex-col items-center justify-center gap-1 p-2 sm:p-3 rounded-xl sm:rounded-2xl border transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed
+               ${resignArmed ? 'bg-red-900/40 border-red-500/50' : 'bg-slate-900 hover:bg-slate-800 border-slate-800'}
+             `}
+           >
+             <Flag size={18} className={resignArmed ? 'text-red-400' : 'text-slate-400'} />
+             <span className={`text-[9px] sm:text-[10px] font-medium ${resignArmed ? 'text-red-400' : 'text-slate-500'}`}>
+               {resignArmed ? 'Confirm' : 'Resign'}
+             </span>
+           </button>
+
            {/* Analyze / Coach */}
            <button 
              onClick={handleAnalyze}
-             disabled={gameOver}
+             disabled={gameOver || !!puzzle || isOnline}
              className="flex flex-col items-center justify-center gap-1 p-2 sm:p-3 rounded-xl sm:rounded-2xl bg-indigo-600 hover:bg-indigo-500 shadow-lg shadow-indigo-900/30 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
            >
              <BrainCircuit size={18} className="text-white" />
@@ -647,10 +2227,82 @@ const App: React.FC = () => {
         setBoardTheme={setBoardTheme}
         soundEnabled={soundEnabled}
         setSoundEnabled={setSoundEnabled}
-        whiteName={whiteName}
-        setWhiteName={setWhiteName}
-        blackName={blackName}
-        setBlackName={setBlackName}
+        profiles={profiles}
+        whiteProfileId={whiteProfileId}
+        setWhiteProfileId={setWhiteProfileId}
+        blackProfileId={blackProfileId}
+        setBlackProfileId={setBlackProfileId}
+        onCreateProfile={addProfile}
+        onDeleteProfile={deleteProfile}
+        onOpenHistory={() => { setIsSettingsOpen(false); setIsHistoryOpen(true); }}
+        opponent={opponent}
+        setOpponent={setOpponent}
+        playerSide={playerSide}
+        setPlayerSide={setPlayerSide}
+        engineLevel={engineLevel}
+        setEngineLevel={setEngineLevel}
+        rated={rated}
+        setRated={setRated}
+        variant={variant}
+        setVariant={setVariant}
+        chess960Number={chess960Number}
+        setChess960Number={setChess960Number}
+        moveInput={moveInput}
+        setMoveInput={setMoveInput}
+        drawColor={drawColor}
+        setDrawColor={setDrawColor}
+        analysisProvider={analysisProviderId}
+        setAnalysisProvider={setAnalysisProviderId}
+        showEvalBar={showEvalBar}
+        setShowEvalBar={setShowEvalBar}
+        coachComments={coachComments}
+        setCoachComments={setCoachComments}
+      />
+
+      {/* PGN Modal */}
+      <PgnModal
+        isOpen={isPgnOpen}
+        onClose={() => setIsPgnOpen(false)}
+        pgn={isPgnOpen ? buildPgn() : ''}
+        onImport={handleImportPgn}
+      />
+
+      {/* Position Editor */}
+      <PositionEditor
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        initialFen={boardGame.fen()}
+        squareColor={getThemeColors}
+        onStart={startFromPosition}
+      />
+
+      {/* Resume Prompt */}
+      <ResumeGameModal
+        savedGame={pendingResume}
+        onResume={resumeSavedGame}
+        onStartNew={startNewGame}
+      />
+
+      {/* Game History */}
+      <HistoryModal
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        profiles={profiles}
+        ratings={ratings}
+        gameInProgress={historyCount > 0 && !gameOver}
+        onOpenGame={openRecordedGame}
+      />
+
+      {/* Online Lobby */}
+      <OnlineGameModal
+        isOpen={isOnlineOpen}
+        onClose={() => setIsOnlineOpen(false)}
+        online={online}
+        defaultName={getProfileName(profiles, whiteProfileId) ?? 'Player'}
+        timeControl={timeControl}
+        onCreate={createOnlineGame}
+        onJoin={joinOnlineGame}
+        onLeave={leaveOnline}
       />
 
       {/* Analysis Modal */}
@@ -659,6 +2311,12 @@ const App: React.FC = () => {
         onClose={() => setIsAnalysisOpen(false)} 
         analysis={analysisResult}
         loading={analysisLoading}
+        providerLabel={analysisProvider.label}
+        fen={analysisFen}
+        variant={currentVariant}
+        orientation={orientation}
+        squareColor={getThemeColors}
+        onPlayLine={playAnalysisLine}
       />
 
     </div>
@@ -1,16 +1,51 @@
-import React from 'react';
-import { AnalysisResult } from '../types';
-import { X, BrainCircuit, Lightbulb } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { AnalysisResult, AnalysisLine } from '../types';
+import { formatEvalScore } from '../services/engine';
+import { X, BrainCircuit, Lightbulb, AlertTriangle, ListOrdered, Play } from 'lucide-react';
+import { PvPreview } from './PvPreview';
+import { Variant } from '../services/variants';
 
 interface AnalysisModalProps {
   isOpen: boolean;
   onClose: () => void;
   analysis: AnalysisResult | null;
   loading: boolean;
+  providerLabel: string;
+  fen: string; // position the analysis is for
+  variant: Variant;
+  orientation: 'w' | 'b';
+  squareColor: (isBlack: boolean) => string;
+  onPlayLine: (line: AnalysisLine) => void;
 }
 
-export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, analysis, loading }) => {
+// Which side the evaluation favours, preferring the numeric score over the wording
+const favouredSide = (analysis: AnalysisResult): 'w' | 'b' | null => {
+  if (analysis.score) {
+    if (analysis.score.mate !== null || Math.abs(analysis.score.cp) >= 50) return analysis.score.cp > 0 ? 'w' : 'b';
+    return null;
+  }
+  const text = analysis.evaluation.toLowerCase();
+  return text.includes('white') ? 'w' : text.includes('black') ? 'b' : null;
+};
+
+export const AnalysisModal: React.FC<AnalysisModalProps> = ({
+  isOpen,
+  onClose,
+  analysis,
+  loading,
+  providerLabel,
+  fen,
+  variant,
+  orientation,
+  squareColor,
+  onPlayLine
+}) => {
+  // Line being previewed on the mini board
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  useEffect(() => setSelectedLine(null), [analysis]);
+
   if (!isOpen) return null;
+  const preview = selectedLine !== null ? analysis?.lines?.[selectedLine] : undefined;
 
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-fade-in">
@@ -20,7 +55,7 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, a
         <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-800/50">
           <div className="flex items-center gap-2 text-indigo-400">
             <BrainCircuit size={24} />
-            <h2 className="text-lg font-bold text-white">Gemini Coach</h2>
+            <h2 className="text-lg font-bold text-white">{providerLabel} Coach</h2>
           </div>
           <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
             <X size={20} />
@@ -39,10 +74,11 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, a
               {/* Evaluation Badge */}
               <div className="text-center">
                 <span className={`inline-block px-4 py-1.5 rounded-full text-sm font-semibold tracking-wide uppercase
-                  ${analysis.evaluation.toLowerCase().includes('white') ? 'bg-white text-slate-900' : 
-                    analysis.evaluation.toLowerCase().includes('black') ? 'bg-slate-700 text-white' : 
+                  ${favouredSide(analysis) === 'w' ? 'bg-white text-slate-900' : 
+                    favouredSide(analysis) === 'b' ? 'bg-slate-700 text-white' : 
                     'bg-slate-600 text-slate-200'}`}>
                   {analysis.evaluation}
+                  {analysis.score && <span className="ml-2 font-mono normal-case opacity-70">{formatEvalScore(analysis.score)}</span>}
                 </span>
               </div>
 
@@ -57,6 +93,19 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, a
                 </div>
               )}
 
+              {/* Illegal Suggestion */}
+              {analysis.illegalMove && (
+                <div className="bg-amber-900/20 border border-amber-500/30 rounded-xl p-4 flex items-start gap-3">
+                  <AlertTriangle className="text-amber-400 shrink-0 mt-1" size={20} />
+                  <div>
+                    <h3 className="text-sm font-medium text-amber-300 uppercase tracking-wider mb-1">Coach suggested an illegal move</h3>
+                    <p className="text-slate-300 text-sm">
+                      <span className="font-bold text-white">{analysis.illegalMove}</span> can't be played in this position, even after asking again with the legal moves.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {/* Explanation */}
               <div className="space-y-2">
                 <h3 className="text-sm font-medium text-slate-400 uppercase tracking-wider">Strategic Insight</h3>
@@ -64,6 +113,45 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, a
                   {analysis.explanation}
                 </p>
               </div>
+
+              {/* Candidate Lines */}
+              {analysis.lines && analysis.lines.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                    <ListOrdered size={16} /> Top Lines
+                  </h3>
+                  <div className="space-y-1">
+                    {analysis.lines.map((line, index) => (
+                      <button
+                        key={line.san}
+                        onClick={() => setSelectedLine(selectedLine === index ? null : index)}
+                        className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left transition-colors
+                          ${selectedLine === index ? 'bg-indigo-600/30 border border-indigo-500/50' : 'bg-slate-800/60 border border-transparent hover:bg-slate-800'}`}
+                      >
+                        <span className={`shrink-0 w-14 text-center text-xs font-mono font-bold rounded px-1 py-0.5
+                          ${line.score.cp >= 0 ? 'bg-white text-slate-900' : 'bg-slate-700 text-white'}`}>
+                          {formatEvalScore(line.score)}
+                        </span>
+                        <span className="text-sm text-slate-300 truncate">
+                          <span className="font-bold text-white">{line.san}</span> {line.pv.slice(1).join(' ')}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+
+                  {preview && (
+                    <div className="bg-slate-950/50 border border-slate-800 rounded-xl p-3 space-y-3 animate-fade-in">
+                      <PvPreview fen={fen} variant={variant} pv={preview.pv} orientation={orientation} squareColor={squareColor} />
+                      <button
+                        onClick={() => onPlayLine(preview)}
+                        className="w-full flex items-center justify-center gap-2 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-lg transition-colors"
+                      >
+                        <Play size={16} /> Play Out on Board
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           ) : (
              <div className="text-center text-slate-500">No analysis available.</div>
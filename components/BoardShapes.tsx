@@ -0,0 +1,81 @@
+import React, { useId } from 'react';
+import { BoardShape, SHAPE_COLORS, shapeStroke } from '../services/shapes';
+
+// Suggested moves and analysis lines, in the app's accent colour
+export interface HintArrow {
+  from: string;
+  to: string;
+  opacity: number;
+}
+
+interface BoardShapesProps {
+  shapes: BoardShape[];
+  hints: HintArrow[];
+  preview: BoardShape | null; // shape being drawn
+  orientation: 'w' | 'b';
+}
+
+const HINT_STROKE = '#6366f1';
+const ARROW_WIDTH = 0.16;
+// Pull the line back so the head's tip stops short of the square's centre
+const ARROW_END_INSET = 0.38;
+
+/**
+ * SVG layer over the board grid, one unit per square, drawing arrows and
+ * circled squares from the viewer's side.
+ */
+export const BoardShapes: React.FC<BoardShapesProps> = ({ shapes, hints, preview, orientation }) => {
+  // useId output isn't a valid fragment identifier everywhere
+  const id = useId().replace(/[^\w-]/g, '');
+  if (shapes.length === 0 && hints.length === 0 && !preview) return null;
+
+  const centre = (square: string) => {
+    const file = square.charCodeAt(0) - 97;
+    const rank = Number(square[1]);
+    const x = orientation === 'w' ? file : 7 - file;
+    const y = orientation === 'w' ? 8 - rank : rank - 1;
+    return { x: x + 0.5, y: y + 0.5 };
+  };
+
+  const renderShape = (from: string, to: string, stroke: string, marker: string, opacity: number, key: string) => {
+    const start = centre(from);
+    if (from === to) {
+      return <circle key={key} cx={start.x} cy={start.y} r={0.45} fill="none" stroke={stroke} strokeWidth={0.07} opacity={opacity} />;
+    }
+    const end = centre(to);
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const ratio = (length - ARROW_END_INSET) / length;
+    return (
+      <line
+        key={key}
+        x1={start.x}
+        y1={start.y}
+        x2={start.x + (end.x - start.x) * ratio}
+        y2={start.y + (end.y - start.y) * ratio}
+        stroke={stroke}
+        strokeWidth={ARROW_WIDTH}
+        strokeLinecap="round"
+        markerEnd={`url(#${marker})`}
+        opacity={opacity}
+      />
+    );
+  };
+
+  const markerId = (name: string) => `${id}-arrowhead-${name}`;
+  const markers = [...SHAPE_COLORS.map((c) => ({ name: c.value, stroke: c.stroke })), { name: 'hint', stroke: HINT_STROKE }];
+
+  return (
+    <svg viewBox="0 0 8 8" className="absolute inset-0 w-full h-full z-[15] pointer-events-none">
+      <defs>
+        {markers.map(({ name, stroke }) => (
+          <marker key={name} id={markerId(name)} markerWidth="4" markerHeight="4" refX="2.05" refY="2" orient="auto">
+            <path d="M0,0 V4 L3,2 Z" fill={stroke} />
+          </marker>
+        ))}
+      </defs>
+      {hints.map((h, i) => renderShape(h.from, h.to, HINT_STROKE, markerId('hint'), h.opacity, `hint-${i}`))}
+      {shapes.map((s) => renderShape(s.from, s.to, shapeStroke(s.color), markerId(s.color), 0.8, `${s.from}${s.to}`))}
+      {preview && renderShape(preview.from, preview.to, shapeStroke(preview.color), markerId(preview.color), 0.5, 'preview')}
+    </svg>
+  );
+};
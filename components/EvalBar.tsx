@@ -0,0 +1,45 @@
+import React from 'react';
+import { EvalScore } from '../types';
+import { formatEvalScore } from '../services/engine';
+
+interface EvalBarProps {
+  score: EvalScore | null;
+  orientation: 'w' | 'b';
+}
+
+// Share of the bar filled by White: a logistic curve so small edges still show
+const whiteShare = (score: EvalScore) => {
+  if (score.mate !== null) return score.cp > 0 ? 100 : 0;
+  const share = 50 + 50 * (2 / (1 + Math.exp(-0.004 * score.cp)) - 1);
+  return Math.min(95, Math.max(5, share));
+};
+
+/**
+ * Vertical evaluation bar with White's side at the bottom of the board,
+ * whichever way it faces.
+ */
+export const EvalBar: React.FC<EvalBarProps> = ({ score, orientation }) => {
+  const share = score ? whiteShare(score) : 50;
+  const whiteAtBottom = orientation === 'w';
+  const whiteLeads = !score || score.cp >= 0;
+  // Label sits at the leading side's end of the bar
+  const labelAtBottom = whiteLeads === whiteAtBottom;
+
+  return (
+    <div className="relative w-full h-full bg-slate-700 rounded-sm overflow-hidden">
+      <div
+        className={`absolute inset-x-0 bg-slate-100 transition-[height] duration-500 ease-out ${whiteAtBottom ? 'bottom-0' : 'top-0'}`}
+        style={{ height: `${share}%` }}
+      />
+      <div className="absolute inset-x-0 top-1/2 h-px bg-amber-500/60" />
+      {score && (
+        <span
+          className={`absolute inset-x-0 text-center text-[8px] sm:text-[9px] font-bold font-mono leading-none
+            ${labelAtBottom ? 'bottom-1' : 'top-1'} ${whiteLeads ? 'text-slate-800' : 'text-slate-200'}`}
+        >
+          {formatEvalScore(score).replace(/^[+-]/, '')}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { X, LineChart } from 'lucide-react';
+import { GameReview, MoveClassification, EVAL_CAP } from '../services/review';
+import { formatEvalScore } from '../services/engine';
+
+interface GameReviewPanelProps {
+  review: GameReview | null;
+  progress: { done: number; total: number } | null;
+  currentPly: number;
+  whiteName: string;
+  blackName: string;
+  onSelectPly: (ply: number) => void;
+  onClose: () => void;
+}
+
+export const CLASSIFICATION_STYLES: Record<MoveClassification, { label: string; symbol: string; color: string; fill: string }> = {
+  best: { label: 'Best', symbol: '', color: 'text-emerald-400', fill: '#34d399' },
+  good: { label: 'Good', symbol: '', color: 'text-slate-300', fill: '#cbd5e1' },
+  inaccuracy: { label: 'Inaccuracy', symbol: '?!', color: 'text-yellow-400', fill: '#facc15' },
+  mistake: { label: 'Mistake', symbol: '?', color: 'text-orange-400', fill: '#fb923c' },
+  blunder: { label: 'Blunder', symbol: '??', color: 'text-red-400', fill: '#f87171' },
+};
+
+const GRAPH_WIDTH = 200;
+const GRAPH_HEIGHT = 60;
+
+// White's advantage as a filled area over the game; tap to jump to a ply
+const EvalGraph: React.FC<{ review: GameReview; currentPly: number; onSelectPly: (ply: number) => void }> = ({ review, currentPly, onSelectPly }) => {
+  const lastPly = review.evals.length - 1;
+  const x = (ply: number) => (lastPly === 0 ? 0 : (ply / lastPly) * GRAPH_WIDTH);
+  const y = (cp: number) => GRAPH_HEIGHT / 2 - (cp / EVAL_CAP) * (GRAPH_HEIGHT / 2);
+  const line = review.evals.map((cp, ply) => `${x(ply)},${y(cp)}`).join(' ');
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    onSelectPly(Math.round(ratio * lastPly));
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-16 rounded-lg bg-slate-700 cursor-pointer touch-none"
+      onPointerDown={onPointerDown}
+    >
+      <polygon points={`0,${GRAPH_HEIGHT} ${line} ${GRAPH_WIDTH},${GRAPH_HEIGHT}`} fill="#e2e8f0" />
+      <line x1="0" y1={GRAPH_HEIGHT / 2} x2={GRAPH_WIDTH} y2={GRAPH_HEIGHT / 2} stroke="#64748b" strokeWidth="0.5" />
+      <line x1={x(currentPly)} y1="0" x2={x(currentPly)} y2={GRAPH_HEIGHT} stroke="#6366f1" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+      {review.moves
+        .filter((m) => m.classification === 'mistake' || m.classification === 'blunder')
+        .map((m) => (
+          <circle
+            key={m.ply}
+            cx={x(m.ply)}
+            cy={y(review.evals[m.ply])}
+            r="2"
+            fill={CLASSIFICATION_STYLES[m.classification].fill}
+            stroke="#0f172a"
+            strokeWidth="0.5"
+          />
+        ))}
+    </svg>
+  );
+};
+
+export const GameReviewPanel: React.FC<GameReviewPanelProps> = ({ review, progress, currentPly, whiteName, blackName, onSelectPly, onClose }) => {
+  const current = review && currentPly > 0 ? review.moves[currentPly - 1] : null;
+
+  const countFor = (color: 'w' | 'b', classification: MoveClassification) =>
+    review ? review.moves.filter((m) => m.color === color && m.classification === classification).length : 0;
+
+  const accuracyCard = (color: 'w' | 'b', name: string) => (
+    <div className="flex-1 min-w-0 bg-slate-800/60 rounded-lg px-2 py-1.5">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-xs text-slate-400 truncate">{name}</span>
+        <span className="text-sm font-bold text-white">
+          {review?.accuracy[color] != null ? `${review.accuracy[color]!.toFixed(1)}%` : '–'}
+        </span>
+      </div>
+      <div className="flex gap-2 text-[10px] font-mono">
+        {(['inaccuracy', 'mistake', 'blunder'] as MoveClassification[]).map((c) => (
+          <span key={c} className={CLASSIFICATION_STYLES[c].color} title={CLASSIFICATION_STYLES[c].label}>
+            {countFor(color, c)}{CLASSIFICATION_STYLES[c].symbol}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-2 space-y-2 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-indigo-400">
+          <LineChart size={16} />
+          <h3 className="text-sm font-bold text-white">Game Review</h3>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      {!review ? (
+        <div className="space-y-1 py-1">
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500 transition-all duration-300"
+              style={{ width: progress ? `${(progress.done / progress.total) * 100}%` : '0%' }}
+            />
+          </div>
+          <p className="text-xs text-slate-400 animate-pulse">
+            Analyzing position {progress?.done ?? 0} of {progress?.total ?? '…'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Accuracy */}
+          <div className="flex gap-2">
+            {accuracyCard('w', whiteName)}
+            {accuracyCard('b', blackName)}
+          </div>
+
+          <EvalGraph review={review} currentPly={currentPly} onSelectPly={onSelectPly} />
+
+          {/* Current Move */}
+          <div className="flex items-center justify-between text-xs min-h-[1.25rem]">
+            {current ? (
+              <p className="text-slate-300 truncate">
+                <span className="font-semibold text-white">{current.san}</span>{' '}
+                <span className={CLASSIFICATION_STYLES[current.classification].color}>
+                  {CLASSIFICATION_STYLES[current.classification].label}
+                </span>
+                {current.classification !== 'best' && current.bestSan && (
+                  <span className="text-slate-500"> · best was {current.bestSan}</span>
+                )}
+              </p>
+            ) : (
+              <p className="text-slate-500">Starting position</p>
+            )}
+            <span className="font-mono text-slate-400 shrink-0 ml-2">
+              {formatEvalScore({ cp: review.evals[currentPly], mate: review.mates[currentPly] })}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, Wifi, AlertTriangle } from 'lucide-react';
+import { TIME_CONTROL_CATEGORIES, TimeControlCategory, describeTimeControl } from '../services/clock';
+import { TERMINATION_LABELS, toPgnResult } from '../services/gameEnd';
+import {
+  GameRecord,
+  Outcome,
+  Tally,
+  loadGameRecords,
+  outcomeFor,
+  profileColor,
+  recordedPlayerName,
+  summarizeGames,
+} from '../services/gameHistory';
+import { PlayerProfile } from '../services/profiles';
+import { RatingBook, RatingPoint, formatRating } from '../services/ratings';
+import { getVariantInfo } from '../services/variants';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: PlayerProfile[];
+  ratings: RatingBook;
+  gameInProgress: boolean; // opening a game replaces it, so that is confirmed first
+  // Returns an error message, or null when the game was opened
+  onOpenGame: (record: GameRecord) => string | null;
+}
+
+const OUTCOME_CLASSES: Record<Outcome, string> = {
+  win: 'bg-emerald-500/20 text-emerald-400',
+  draw: 'bg-slate-700 text-slate-300',
+  loss: 'bg-red-500/20 text-red-400',
+};
+
+const CHART_WIDTH = 200;
+const CHART_HEIGHT = 60;
+const CHART_PADDING = 4;
+
+const RatingChart: React.FC<{ history: RatingPoint[] }> = ({ history }) => {
+  const ratings = history.map((p) => p.rating);
+  // Keep at least 100 points of range so small changes don't look dramatic
+  const mid = (Math.max(...ratings) + Math.min(...ratings)) / 2;
+  const half = Math.max(50, (Math.max(...ratings) - Math.min(...ratings)) / 2);
+  const x = (i: number) => (history.length === 1 ? CHART_WIDTH / 2 : (i / (history.length - 1)) * CHART_WIDTH);
+  const y = (rating: number) => CHART_HEIGHT / 2 - ((rating - mid) / half) * (CHART_HEIGHT / 2 - CHART_PADDING);
+  const line = history.map((p, i) => `${x(i)},${y(p.rating)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 rounded-lg bg-slate-700">
+      <line x1="0" y1={y(history[0].rating)} x2={CHART_WIDTH} y2={y(history[0].rating)} stroke="#64748b" strokeWidth="0.5" />
+      <polyline points={line} fill="none" stroke="#818cf8" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const TallyLine: React.FC<{ label: string, tally: Tally }> = ({ label, tally }) => {
+  const played = tally.win + tally.draw + tally.loss;
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs">
+      <span className="text-slate-400 truncate">{label}</span>
+      <span className="shrink-0 font-mono">
+        <span className="text-emerald-400">{tally.win}W</span>{' '}
+        <span className="text-slate-300">{tally.draw}D</span>{' '}
+        <span className="text-red-400">{tally.loss}L</span>
+        {played > 0 && (
+          <span className="text-slate-500"> · {Math.round(((tally.win + tally.draw / 2) / played) * 100)}%</span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, profiles, ratings, gameInProgress, onOpenGame }) => {
+  const [records, setRecords] = useState<GameRecord[] | null>(null);
+  const [confirming, setConfirming] = useState<GameRecord | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [player, setPlayer] = useState<string>(() => profiles[0]?.id ?? 'all');
+  const [result, setResult] = useState<'all' | Outcome>('all');
+  const [timeControl, setTimeControl] = useState('all');
+  const [category, setCategory] = useState<TimeControlCategory | null>(null);
+  // A deleted profile falls back to everyone
+  const selected = profiles.some((p) => p.id === player) ? player : 'all';
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setRecords(null);
+    setConfirming(null);
+    setOpenError(null);
+    loadGameRecords().then((loaded) => {
+      if (!cancelled) setRecords(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const timeControls = useMemo(
+    () => [...new Set((records ?? []).map((r) => describeTimeControl(r.timeControl)))],
+    [records]
+  );
+  // Stats follow the player and time control filters, not the result filter
+  const inTimeControl = (records ?? []).filter((r) => timeControl === 'all' || describeTimeControl(r.timeControl) === timeControl);
+  const summary = selected === 'all' ? null : summarizeGames(inTimeControl, selected, profiles);
+  // Without a player, results read from White's side
+  const shown = inTimeControl.filter((record) => {
+    const color = selected === 'all' ? 'w' : profileColor(record, selected);
+    return color !== null && (result === 'all' || outcomeFor(record, color) === result);
+  });
+
+  const rated = selected === 'all' ? [] : TIME_CONTROL_CATEGORIES.filter((c) => ratings[selected]?.[c.value]);
+  const chartCategory = rated.find((c) => c.value === category) ?? rated[0];
+  const chartRating = chartCategory && ratings[selected][chartCategory.value]!;
+
+  if (!isOpen) return null;
+
+  // A game in progress is only replaced once the same game is picked again
+  const openGame = (record: GameRecord) => {
+    if (gameInProgress && confirming?.id !== record.id) {
+      setConfirming(record);
+      setOpenError(null);
+      return;
+    }
+    setConfirming(null);
+    setOpenError(onOpenGame(record));
+  };
+
+  const resultOptions: ['all' | Outcome, string][] = selected === 'all'
+    ? [['all', 'All'], ['win', '1-0'], ['draw', '½-½'], ['loss', '0-1']]
+    : [['all', 'All'], ['win', 'Won'], ['draw', 'Drawn'], ['loss', 'Lost']];
+  const selectClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-800/50">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <History size={20} className="text-indigo-400" /> Game History
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 space-y-2 border-b border-slate-800">
+          <div className="grid grid-cols-2 gap-2">
+            <select value={selected} onChange={(e) => setPlayer(e.target.value)} className={selectClass}>
+              <option value="all">All players</option>
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <select value={timeControl} onChange={(e) => setTimeControl(e.target.value)} className={selectClass}>
+              <option value="all">Any time control</option>
+              {timeControls.map((tc) => (
+                <option key={tc} value={tc}>{tc}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {resultOptions.map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setResult(value)}
+                className={`py-1.5 rounded-lg text-xs font-bold transition-all
+                  ${result === value ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+          {chartRating && (
+            <div className="space-y-2 bg-slate-800/50 rounded-xl p-3">
+              <div className="flex flex-wrap gap-1.5">
+                {rated.map((c) => (
+                  <button
+                    key={c.value}
+                    onClick={() => setCategory(c.value)}
+                    className={`px-2 py-1 rounded-lg text-xs font-bold transition-all
+                      ${c === chartCategory ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                  >
+                    {c.label} <span className="font-mono">{formatRating(ratings[selected][c.value]!)}</span>
+                  </button>
+                ))}
+              </div>
+              <RatingChart history={chartRating.history} />
+              <p className="text-[10px] text-slate-500">
+                {chartRating.games} rated {chartRating.games === 1 ? 'game' : 'games'}
+                {chartRating.rating !== chartRating.history[0].rating && ` · started at ${chartRating.history[0].rating}`}
+              </p>
+            </div>
+          )}
+
+          {summary && (
+            <div className="space-y-1.5 bg-slate-800/50 rounded-xl p-3">
+              <TallyLine label="Overall" tally={summary.overall} />
+              <TallyLine label="As White" tally={summary.asWhite} />
+              <TallyLine label="As Black" tally={summary.asBlack} />
+              {summary.opponents.length > 0 && (
+                <>
+                  <p className="pt-1.5 text-[10px] font-bold uppercase tracking-wider text-slate-500">Against</p>
+                  {summary.opponents.map(({ name, tally }, i) => (
+                    <TallyLine key={i} label={name} tally={tally} />
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+
+          {confirming && (
+            <div className="flex items-start gap-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg p-2">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              <div className="flex-1 space-y-2">
+                <p>
+                  Opening {recordedPlayerName(confirming.white, profiles)} vs {recordedPlayerName(confirming.black, profiles)} ends
+                  the game in progress.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => setConfirming(null)}
+                    className="py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+                  >
+                    Keep Playing
+                  </button>
+                  <button
+                    onClick={() => openGame(confirming)}
+                    className="py-1.5 rounded-lg text-xs font-bold bg-amber-600 text-white hover:bg-amber-500 transition-colors"
+                  >
+                    Open Game
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {openError && (
+            <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded-lg p-2">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              <span>Could not open that game: {openError}</span>
+            </div>
+          )}
+
+          {records === null ? (
+            <p className="text-sm text-slate-500 text-center animate-pulse">Loading games...</p>
+          ) : shown.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center">
+              {records.length === 0 ? 'Finished games will appear here.' : 'No games match these filters.'}
+            </p>
+          ) : (
+            <div className="space-y-1.5">
+              {shown.map((record) => {
+                const color = selected === 'all' ? null : profileColor(record, selected);
+                const badge = color ? OUTCOME_CLASSES[outcomeFor(record, color)] : 'bg-slate-700 text-slate-300';
+                const change = color && record.ratingChanges?.[color];
+                const details = [
+                  new Date(record.playedAt).toLocaleDateString(),
+                  change && `${change.after - change.before >= 0 ? '+' : ''}${change.after - change.before} rating`,
+                  record.variant && getVariantInfo(record.variant).label,
+                  describeTimeControl(record.timeControl),
+                  TERMINATION_LABELS[record.result.termination],
+                  `${Math.ceil(record.moveCount / 2)} moves`,
+                ].filter(Boolean);
+                return (
+                  <button
+                    key={record.id}
+                    onClick={() => openGame(record)}
+                    className={`w-full text-left px-3 py-2 rounded-lg hover:bg-slate-800 transition-colors space-y-0.5
+                      ${confirming?.id === record.id ? 'bg-slate-800 ring-1 ring-amber-500/50' : 'bg-slate-800/60'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-white truncate flex items-center gap-1.5">
+                        {record.online && <Wifi size={12} className="shrink-0 text-emerald-400" />}
+                        {recordedPlayerName(record.white, profiles)} vs {recordedPlayerName(record.black, profiles)}
+                      </span>
+                      <span className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-mono font-bold ${badge}`}>
+                        {toPgnResult(record.result)}
+                      </span>
+                    </div>
+                    <p className="text-[10px] text-slate-500 truncate">{details.join(' · ')}</p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-950/50 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="w-full py-3 bg-slate-800 hover:bg-slate-700 text-white font-medium rounded-xl transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, MessageSquare, ArrowUpToLine, Trash2 } from 'lucide-react';
+import { MOVE_ASSESSMENTS, PlyAnnotation, assessmentSymbol, isMoveAssessment } from '../services/pgn';
+import { MoveNode, TreeNode, TreePath, branchPly, lineEnd, nodeAt, samePath } from '../services/moveTree';
+import { MoveClassification } from '../services/review';
+import { CLASSIFICATION_STYLES } from './GameReviewPanel';
+
+interface MoveListProps {
+  tree: TreeNode;
+  livePly: number; // main line moves after it are ones a takeback undid
+  currentPath: TreePath; // position shown on the board
+  onSelect: (path: TreePath) => void;
+  classifications?: MoveClassification[]; // from a game review, indexed by main line ply - 1
+  onAnnotate?: (path: TreePath, annotation: PlyAnnotation) => void; // lets the current move be annotated
+  onPromote?: (path: TreePath) => void; // makes the current variation the main line
+  onDelete?: (path: TreePath) => void; // deletes the current variation
+}
+
+// Move number label, e.g. "12." for White and "12..." for Black
+const moveNumberLabel = (node: MoveNode) => {
+  const moveNumber = node.move.before.split(' ')[5];
+  return node.move.color === 'w' ? `${moveNumber}.` : `${moveNumber}...`;
+};
+
+export const MoveList: React.FC<MoveListProps> = ({
+  tree,
+  livePly,
+  currentPath,
+  onSelect,
+  classifications,
+  onAnnotate,
+  onPromote,
+  onDelete,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const currentNode = nodeAt(tree, currentPath);
+  const canAnnotate = !!onAnnotate && currentPath.length > 0;
+  const inVariation = branchPly(currentPath) < currentPath.length;
+  const currentKey = currentPath.join('.');
+
+  // Keep the highlighted move in view
+  useEffect(() => {
+    if (activeRef.current && scrollRef.current) {
+      const container = scrollRef.current;
+      const el = activeRef.current;
+      container.scrollLeft = el.offsetLeft - container.clientWidth / 2 + el.clientWidth / 2;
+    } else if (scrollRef.current && currentPath.length === 0) {
+      scrollRef.current.scrollLeft = 0;
+    }
+  }, [currentKey, tree]);
+
+  // Variations are smaller and dimmer, as are the moves after the live position
+  const renderMove = (node: MoveNode, path: TreePath, numbered: boolean, depth: number) => {
+    const isActive = samePath(path, currentPath);
+    const classification = depth === 0 ? classifications?.[path.length - 1] : undefined;
+    const style = classification && CLASSIFICATION_STYLES[classification];
+    const { annotation } = node;
+    // The player's own assessment wins over the review's
+    const symbol = assessmentSymbol(annotation?.nags);
+    const idle = depth > 0 || path.length > livePly ? 'text-slate-500 hover:bg-slate-800' : 'text-slate-300 hover:bg-slate-800';
+    return (
+      <React.Fragment key={path.join('.')}>
+        {(numbered || node.move.color === 'w') && (
+          <span className="text-slate-500 font-mono">{moveNumberLabel(node)}</span>
+        )}
+        <button
+          ref={isActive ? activeRef : undefined}
+          onClick={() => onSelect(path)}
+          className={`px-1.5 py-0.5 rounded font-medium transition-colors
+            ${isActive ? 'bg-indigo-600 text-white' : idle}`}
+        >
+          {node.move.san}
+          {symbol ? (
+            <span className={isActive ? '' : 'text-amber-300'}>{symbol}</span>
+          ) : style?.symbol && <span className={isActive ? '' : style.color}>{style.symbol}</span>}
+        </button>
+        {annotation?.comment && (
+          <span title={annotation.comment} className="mx-0.5 max-w-[10rem] truncate text-[10px] sm:text-xs italic text-slate-500">
+            {annotation.comment}
+          </span>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  // The line after `node` in PGN order: each move, then the variations on it in parentheses.
+  // Black's move is numbered again at the start of a line and after a comment or variation.
+  const renderLine = (node: TreeNode, path: TreePath, numbered: boolean, depth: number): React.ReactNode[] => {
+    const items: React.ReactNode[] = [];
+    while (node.children.length > 0) {
+      const [next, ...variations] = node.children;
+      const nextPath = [...path, 0];
+      items.push(renderMove(next, nextPath, numbered, depth));
+      numbered = !!next.annotation?.comment;
+      variations.forEach((variation, index) => {
+        const variationPath = [...path, index + 1];
+        const key = variationPath.join('.');
+        items.push(
+          <span key={`${key}(`} className="text-slate-600">(</span>,
+          renderMove(variation, variationPath, true, depth + 1),
+          ...renderLine(variation, variationPath, !!variation.annotation?.comment, depth + 1),
+          <span key={`${key})`} className="text-slate-600">)</span>,
+        );
+        numbered = true;
+      });
+      node = next;
+      path = nextPath;
+    }
+    return items;
+  };
+
+  const navButton = (icon: React.ReactNode, path: TreePath, disabled: boolean) => (
+    <button
+      onClick={() => onSelect(path)}
+      disabled={disabled}
+      className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+    >
+      {icon}
+    </button>
+  );
+
+  const actionButton = (icon: React.ReactNode, title: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      title={title}
+      className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+    >
+      {icon}
+    </button>
+  );
+
+  const current = currentNode?.annotation ?? {};
+  const toggleAssessment = (nag: number) => {
+    const others = (current.nags ?? []).filter((n) => !isMoveAssessment(n));
+    onAnnotate!(currentPath, { ...current, nags: current.nags?.includes(nag) ? others : [nag, ...others] });
+  };
+
+  const atStart = currentPath.length === 0;
+  const atEnd = !currentNode || currentNode.children.length === 0;
+
+  return (
+    <div className="space-y-1.5">
+    <div className="flex items-center gap-1 bg-slate-900 border border-slate-800 rounded-xl px-1 py-1">
+      {navButton(<ChevronsLeft size={16} />, [], atStart)}
+      {navButton(<ChevronLeft size={16} />, currentPath.slice(0, -1), atStart)}
+
+      <div ref={scrollRef} className="flex-1 flex items-center gap-0.5 overflow-x-auto no-scrollbar text-xs sm:text-sm whitespace-nowrap scroll-smooth">
+        {tree.children.length === 0 ? (
+          <span className="px-2 text-slate-600 italic">No moves yet</span>
+        ) : (
+          renderLine(tree, [], true, 0)
+        )}
+      </div>
+
+      {navButton(<ChevronRight size={16} />, [...currentPath, 0], atEnd)}
+      {navButton(<ChevronsRight size={16} />, lineEnd(tree, currentPath), atEnd)}
+      {inVariation && onPromote && actionButton(<ArrowUpToLine size={16} />, 'Make main line', () => onPromote(currentPath))}
+      {inVariation && onDelete && actionButton(<Trash2 size={16} />, 'Delete variation', () => onDelete(currentPath))}
+      {onAnnotate && (
+        <button
+          onClick={() => setIsAnnotating((open) => !open)}
+          disabled={!canAnnotate}
+          title="Annotate move"
+          className={`p-1.5 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed
+            ${isAnnotating && canAnnotate ? 'text-indigo-400 bg-slate-800' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+        >
+          <MessageSquare size={16} />
+        </button>
+      )}
+    </div>
+
+    {isAnnotating && canAnnotate && (
+      <div className="flex items-center gap-1 bg-slate-900 border border-slate-800 rounded-xl p-1">
+        {MOVE_ASSESSMENTS.map((a) => (
+          <button
+            key={a.nag}
+            onClick={() => toggleAssessment(a.nag)}
+            title={a.label}
+            className={`shrink-0 w-7 py-1 rounded-lg text-xs font-bold transition-colors
+              ${current.nags?.includes(a.nag) ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+          >
+            {a.symbol}
+          </button>
+        ))}
+        <input
+          value={current.comment ?? ''}
+          onChange={(e) => onAnnotate!(currentPath, { ...current, comment: e.target.value })}
+          placeholder="Comment on this move"
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+        />
+      </div>
+    )}
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, Wifi, AlertTriangle } from 'lucide-react';
+import { TimeControl, describeTimeControl } from '../services/clock';
+import { RelayStatus, defaultRelayUrl } from '../services/relayClient';
+
+export type OnlineSide = 'w' | 'b' | 'random';
+
+export interface OnlineGame {
+  code: string | null; // null until the relay has seated us
+  color: 'w' | 'b' | null;
+  status: RelayStatus;
+  names: { w: string | null; b: string | null };
+  connected: { w: boolean; b: boolean };
+  error: string | null;
+}
+
+interface OnlineGameModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  online: OnlineGame | null;
+  defaultName: string;
+  timeControl: TimeControl;
+  onCreate: (url: string, name: string, side: OnlineSide) => void;
+  onJoin: (url: string, name: string, code: string) => void;
+  onLeave: () => void;
+}
+
+export const OnlineGameModal: React.FC<OnlineGameModalProps> = ({
+  isOpen,
+  onClose,
+  online,
+  defaultName,
+  timeControl,
+  onCreate,
+  onJoin,
+  onLeave
+}) => {
+  const [url, setUrl] = useState(defaultRelayUrl);
+  const [name, setName] = useState(defaultName);
+  const [side, setSide] = useState<OnlineSide>('w');
+  const [code, setCode] = useState('');
+
+  if (!isOpen) return null;
+
+  const busy = online?.status === 'connecting';
+  const waiting = !!online?.code && !(online.names.w && online.names.b);
+  const playerName = name.trim() || defaultName;
+
+  const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-colors placeholder-slate-600";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-800/50">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Wifi size={20} className="text-indigo-400" /> Play on Two Devices
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+          {online?.error && (
+            <div className="flex items-start gap-2 text-sm text-red-400 bg-red-900/20 border border-red-500/30 rounded-lg p-3">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              <span>{online.error}</span>
+            </div>
+          )}
+
+          {waiting ? (
+            <div className="text-center space-y-3">
+              <p className="text-sm text-slate-400">Share this code with your opponent</p>
+              <p className="text-4xl font-mono font-bold tracking-[0.3em] text-white">{online!.code}</p>
+              <p className="text-xs text-slate-500 animate-pulse">
+                Waiting for an opponent · you play {online!.color === 'w' ? 'White' : 'Black'} · {describeTimeControl(timeControl)}
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Connection */}
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-500 font-medium">Relay server</label>
+                  <input type="text" value={url} onChange={(e) => setUrl(e.target.value)} className={`${inputClass} font-mono`} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-500 font-medium">Your name</label>
+                  <input type="text" value={name} maxLength={12} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder={defaultName} />
+                </div>
+              </div>
+
+              <hr className="border-slate-800" />
+
+              {/* Create */}
+              <div className="space-y-3">
+                <label className="text-sm font-medium text-slate-400 uppercase tracking-wider">New Game</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([['w', 'White'], ['b', 'Black'], ['random', 'Random']] as [OnlineSide, string][]).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setSide(value)}
+                      className={`py-2 rounded-lg text-sm font-bold transition-all
+                        ${side === value
+                          ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                          : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => onCreate(url.trim(), playerName, side)}
+                  disabled={busy}
+                  className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Create Game ({describeTimeControl(timeControl)})
+                </button>
+              </div>
+
+              <hr className="border-slate-800" />
+
+              {/* Join */}
+              <div className="space-y-3">
+                <label className="text-sm font-medium text-slate-400 uppercase tracking-wider">Join a Game</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={code}
+                    maxLength={4}
+                    onChange={(e) => setCode(e.target.value.toUpperCase())}
+                    className={`${inputClass} font-mono tracking-widest uppercase`}
+                    placeholder="CODE"
+                  />
+                  <button
+                    onClick={() => onJoin(url.trim(), playerName, code)}
+                    disabled={busy || code.trim().length === 0}
+                    className="px-5 bg-slate-800 hover:bg-slate-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Join
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-950/50 border-t border-slate-800">
+          <button
+            onClick={waiting ? onLeave : onClose}
+            className="w-full py-3 bg-slate-800 hover:bg-slate-700 text-white font-medium rounded-xl transition-colors"
+          >
+            {waiting ? 'Cancel Game' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { BookOpen, X } from 'lucide-react';
+import { Opening } from '../services/openingBook';
+import { BookMove } from '../services/openings';
+
+interface OpeningExplorerProps {
+  opening: Opening | null;
+  moves: BookMove[];
+  canPlay: boolean;
+  onPlayMove: (move: BookMove) => void;
+  onClose: () => void;
+}
+
+export const OpeningExplorer: React.FC<OpeningExplorerProps> = ({ opening, moves, canPlay, onPlayMove, onClose }) => (
+  <div className="bg-slate-900 border border-slate-800 rounded-xl p-2 space-y-2 animate-fade-in">
+    {/* Header */}
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2 text-indigo-400 min-w-0">
+        <BookOpen size={16} className="shrink-0" />
+        <h3 className="text-sm font-bold text-white shrink-0">Opening Explorer</h3>
+        {opening && (
+          <span className="text-xs text-slate-400 truncate">
+            <span className="font-mono text-slate-500">{opening.eco}</span> {opening.name}
+          </span>
+        )}
+      </div>
+      <button onClick={onClose} className="p-1 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+        <X size={16} />
+      </button>
+    </div>
+
+    {/* Continuations */}
+    {moves.length === 0 ? (
+      <p className="text-xs text-slate-500 px-1">Out of book, no known continuations from here.</p>
+    ) : (
+      <div className="max-h-28 overflow-y-auto space-y-1">
+        {moves.map((move) => (
+          <button
+            key={move.san}
+            onClick={() => onPlayMove(move)}
+            disabled={!canPlay}
+            className="w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left bg-slate-800/60 hover:bg-slate-800 transition-colors disabled:hover:bg-slate-800/60 disabled:cursor-default"
+          >
+            <span className="shrink-0 w-12 text-sm font-bold text-white">{move.san}</span>
+            <span className="shrink-0 text-[10px] font-mono text-slate-500">{move.opening.eco}</span>
+            <span className={`text-xs truncate ${move.named ? 'text-slate-300' : 'text-slate-500 italic'}`}>
+              {move.named ? move.opening.name : `towards ${move.opening.name}`}
+            </span>
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,155 @@
+import React, { useState, useRef } from 'react';
+import { X, FileText, Copy, Download, Upload, Check, AlertTriangle } from 'lucide-react';
+
+interface PgnModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pgn: string;
+  // Returns an error message, or null when the game was loaded
+  onImport: (pgn: string) => string | null;
+}
+
+type Tab = 'export' | 'import';
+
+export const PgnModal: React.FC<PgnModalProps> = ({ isOpen, onClose, pgn, onImport }) => {
+  const [tab, setTab] = useState<Tab>('export');
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(pgn);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard can be blocked (e.g. insecure context); the text stays selectable
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([pgn], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `game-${new Date().toISOString().slice(0, 10)}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then((text) => {
+      setImportText(text);
+      setImportError(null);
+    });
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    const error = onImport(importText);
+    setImportError(error);
+    if (!error) {
+      setImportText('');
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-800/50">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <FileText size={20} className="text-indigo-400" /> PGN
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="grid grid-cols-2 gap-2 p-4 pb-0">
+          {(['export', 'import'] as Tab[]).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`py-2 rounded-lg text-sm font-bold capitalize transition-all
+                ${tab === t
+                  ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                  : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {tab === 'export' ? (
+            <>
+              <textarea
+                readOnly
+                value={pgn}
+                rows={12}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-indigo-500 select-text resize-none"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center justify-center gap-2 py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm font-medium rounded-xl transition-colors"
+                >
+                  {copied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />} {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button
+                  onClick={handleDownload}
+                  className="flex items-center justify-center gap-2 py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm font-medium rounded-xl transition-colors"
+                >
+                  <Download size={16} /> Download
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <textarea
+                value={importText}
+                onChange={(e) => { setImportText(e.target.value); setImportError(null); }}
+                rows={12}
+                placeholder={'[Event "?"]\n...\n\n1. e4 e5 2. Nf3 *'}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-indigo-500 placeholder-slate-600 select-text resize-none"
+              />
+              {importError && (
+                <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded-lg p-2">
+                  <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                  <span>{importError}</span>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center justify-center gap-2 py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm font-medium rounded-xl transition-colors"
+                >
+                  <Upload size={16} /> Open File
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={!importText.trim()}
+                  className="py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Load Game
+                </button>
+              </div>
+              <input ref={fileInputRef} type="file" accept=".pgn,text/plain" onChange={handleFile} className="hidden" />
+            </>
+          )}
+        </div>
+
+      </div>
+    </div>
+  );
+};
@@ -203,6 +203,8 @@ interface AnimatedPieceProps {
   type: 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
   color: 'w' | 'b';
   isSelected?: boolean;
+  // Faded while its drag ghost follows the pointer
+  isDragging?: boolean;
   animateFrom?: { x: number; y: number } | null;
 }
 
@@ -210,6 +212,7 @@ export const AnimatedChessPiece: React.FC<AnimatedPieceProps> = ({
   type, 
   color, 
   isSelected, 
+  isDragging,
   animateFrom 
 }) => {
   const [style, setStyle] = useState<React.CSSProperties>({});
@@ -251,7 +254,7 @@ export const AnimatedChessPiece: React.FC<AnimatedPieceProps> = ({
   }, [isSelected]);
 
   return (
-    <div className="w-[85%] h-[85%]" style={style}>
+    <div className="w-[85%] h-[85%]" style={{ ...style, opacity: isDragging ? 0.3 : 1 }}>
        <ChessPiece type={type} color={color} />
     </div>
   );
@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import { X, Eraser, RotateCcw, Trash2, RefreshCw, AlertTriangle, Users, Cpu, Search } from 'lucide-react';
+import { ChessPiece } from './Pieces';
+import { Piece } from '../types';
+import {
+  EditorPosition,
+  CastlingRight,
+  STARTING_FEN,
+  emptyPosition,
+  parseFen,
+  positionToFen,
+  validatePosition,
+  enPassantCandidates,
+} from '../services/position';
+
+export type StartMode = 'hotseat' | 'computer' | 'analysis';
+
+type EditorTool = Piece | 'erase';
+
+interface PositionEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialFen: string;
+  squareColor: (isBlack: boolean) => string;
+  onStart: (fen: string, mode: StartMode) => void;
+}
+
+const PALETTE_TYPES: Piece['type'][] = ['k', 'q', 'r', 'b', 'n', 'p'];
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+const CASTLING_OPTIONS: [CastlingRight, string][] = [
+  ['K', 'White O-O'],
+  ['Q', 'White O-O-O'],
+  ['k', 'Black O-O'],
+  ['q', 'Black O-O-O'],
+];
+
+const START_MODES: [StartMode, string, React.ReactNode][] = [
+  ['hotseat', 'Hot-seat', <Users size={16} />],
+  ['computer', 'vs Computer', <Cpu size={16} />],
+  ['analysis', 'Analysis', <Search size={16} />],
+];
+
+const loadPosition = (fen: string): EditorPosition => {
+  const result = parseFen(fen);
+  return result.ok ? result.position : emptyPosition();
+};
+
+export const PositionEditor: React.FC<PositionEditorProps> = ({ isOpen, onClose, initialFen, squareColor, onStart }) => {
+  const [position, setPosition] = useState<EditorPosition>(() => loadPosition(initialFen));
+  const [tool, setTool] = useState<EditorTool>({ type: 'p', color: 'w' });
+  const [flipped, setFlipped] = useState(false);
+  const [fenInput, setFenInput] = useState('');
+  const [fenError, setFenError] = useState<string | null>(null);
+
+  // Start from whatever is on the board each time the editor opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setPosition(loadPosition(initialFen));
+    setFenError(null);
+  }, [isOpen]);
+
+  const fen = positionToFen(position);
+  useEffect(() => {
+    setFenInput(fen);
+  }, [fen]);
+
+  if (!isOpen) return null;
+
+  const errors = validatePosition(position);
+  const ranks = flipped ? [1, 2, 3, 4, 5, 6, 7, 8] : [8, 7, 6, 5, 4, 3, 2, 1];
+  const files = flipped ? [...FILES].reverse() : FILES;
+
+  const update = (changes: Partial<EditorPosition>) => setPosition((p) => ({ ...p, ...changes }));
+
+  const onSquareClick = (square: string) => {
+    const pieces = { ...position.pieces };
+    const current = pieces[square];
+    // Tapping the same piece again removes it
+    if (tool === 'erase' || (current && current.type === tool.type && current.color === tool.color)) {
+      delete pieces[square];
+    } else {
+      pieces[square] = tool;
+    }
+    update({ pieces });
+  };
+
+  const loadFen = () => {
+    const result = parseFen(fenInput);
+    if (result.ok === false) {
+      setFenError(result.error);
+      return;
+    }
+    setFenError(null);
+    setPosition(result.position);
+  };
+
+  const isToolSelected = (candidate: EditorTool) =>
+    candidate === 'erase' || tool === 'erase'
+      ? candidate === tool
+      : candidate.type === tool.type && candidate.color === tool.color;
+
+  const toggleButton = (active: boolean) =>
+    `py-2 rounded-lg text-xs font-bold transition-all
+      ${active ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden max-h-[95vh] flex flex-col">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-800/50">
+          <h2 className="text-lg font-bold text-white">Set Up Position</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+
+          {/* Board */}
+          <div className="grid grid-cols-8 grid-rows-8 aspect-square w-full rounded-md overflow-hidden border-4 border-slate-800">
+            {ranks.map((rank, r) =>
+              files.map((file, f) => {
+                const square = `${file}${rank}`;
+                const piece = position.pieces[square];
+                return (
+                  <button
+                    key={square}
+                    onClick={() => onSquareClick(square)}
+                    className={`relative flex items-center justify-center ${squareColor((r + f) % 2 === 1)}`}
+                  >
+                    {piece && (
+                      <div className="w-[85%] h-[85%]">
+                        <ChessPiece type={piece.type} color={piece.color} />
+                      </div>
+                    )}
+                    {position.enPassant === square && (
+                      <div className="absolute w-[25%] h-[25%] rounded-full border-2 border-indigo-500" />
+                    )}
+                  </button>
+                );
+              })
+            )}
+          </div>
+
+          {/* Palette */}
+          <div className="space-y-1">
+            {(['w', 'b'] as const).map((color) => (
+              <div key={color} className="grid grid-cols-7 gap-1">
+                {PALETTE_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => setTool({ type, color })}
+                    className={`aspect-square rounded-lg p-1 transition-colors
+                      ${isToolSelected({ type, color }) ? 'bg-indigo-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+                  >
+                    <ChessPiece type={type} color={color} />
+                  </button>
+                ))}
+                {color === 'w' ? (
+                  <button
+                    onClick={() => setTool('erase')}
+                    title="Remove pieces"
+                    className={`aspect-square rounded-lg flex items-center justify-center transition-colors
+                      ${tool === 'erase' ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                  >
+                    <Eraser size={18} />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setFlipped((f) => !f)}
+                    title="Flip board"
+                    className="aspect-square rounded-lg flex items-center justify-center bg-slate-800 text-slate-400 hover:bg-slate-700 transition-colors"
+                  >
+                    <RotateCcw size={18} className="rotate-90" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => setPosition(loadPosition(STARTING_FEN))} className="flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors">
+              <RefreshCw size={14} /> Starting Position
+            </button>
+            <button onClick={() => setPosition(emptyPosition())} className="flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors">
+              <Trash2 size={14} /> Clear Board
+            </button>
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Side to Move */}
+          <div className="space-y-1">
+            <label className="text-xs text-slate-500 font-medium">Side to move</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([['w', 'White'], ['b', 'Black']] as ['w' | 'b', string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  // The en passant square only makes sense for one side
+                  onClick={() => update({ turn: value, enPassant: value === position.turn ? position.enPassant : null })}
+                  className={toggleButton(position.turn === value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Castling */}
+          <div className="space-y-1">
+            <label className="text-xs text-slate-500 font-medium">Castling rights</label>
+            <div className="grid grid-cols-2 gap-2">
+              {CASTLING_OPTIONS.map(([right, label]) => (
+                <button
+                  key={right}
+                  onClick={() => update({ castling: { ...position.castling, [right]: !position.castling[right] } })}
+                  className={toggleButton(position.castling[right])}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* En Passant & Counters */}
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500 font-medium">En passant</label>
+              <select
+                value={position.enPassant ?? ''}
+                onChange={(e) => update({ enPassant: e.target.value || null })}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+              >
+                <option value="">None</option>
+                {[...new Set([...enPassantCandidates(position), ...(position.enPassant ? [position.enPassant] : [])])].map((square) => (
+                  <option key={square} value={square}>{square}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500 font-medium">Halfmove clock</label>
+              <input
+                type="number"
+                min={0}
+                value={position.halfMoves}
+                onChange={(e) => update({ halfMoves: parseInt(e.target.value, 10) })}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-slate-500 font-medium">Move number</label>
+              <input
+                type="number"
+                min={1}
+                value={position.fullMoves}
+                onChange={(e) => update({ fullMoves: parseInt(e.target.value, 10) })}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          {/* FEN */}
+          <div className="space-y-1">
+            <label className="text-xs text-slate-500 font-medium">FEN</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={fenInput}
+                spellCheck={false}
+                onChange={(e) => setFenInput(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') loadFen(); }}
+                className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-indigo-500"
+              />
+              <button
+                onClick={loadFen}
+                disabled={fenInput.trim() === fen}
+                className="px-3 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Load
+              </button>
+            </div>
+            {fenError && <p className="text-xs text-red-400">{fenError}</p>}
+          </div>
+
+          {/* Errors */}
+          {errors.length > 0 && (
+            <div className="bg-red-900/20 border border-red-500/30 rounded-xl p-3 space-y-1">
+              {errors.map((error) => (
+                <p key={error} className="flex items-start gap-2 text-xs text-red-300">
+                  <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="grid grid-cols-3 gap-2 p-4 bg-slate-950/50 border-t border-slate-800">
+          {START_MODES.map(([mode, label, icon]) => (
+            <button
+              key={mode}
+              onClick={() => onStart(fen, mode)}
+              disabled={errors.length > 0}
+              className="flex items-center justify-center gap-1.5 py-3 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-xl transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+            >
+              {icon} {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ChessPiece } from './Pieces';
+import { Piece } from '../types';
+
+export type PromotionPiece = Extract<Piece['type'], 'q' | 'r' | 'b' | 'n'>;
+
+const PROMOTION_PIECES: PromotionPiece[] = ['q', 'n', 'r', 'b'];
+
+interface PromotionPickerProps {
+  color: Piece['color'];
+  // Position of the promotion square in the displayed grid (0-7, top-left origin)
+  column: number;
+  row: number;
+  suggested?: string;
+  onSelect: (piece: PromotionPiece) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Column of promotion choices anchored on the promotion square, growing
+ * towards the centre of the board like a dropdown.
+ */
+export const PromotionPicker: React.FC<PromotionPickerProps> = ({ color, column, row, suggested, onSelect, onCancel }) => {
+  const growsDown = row < 4;
+  const top = growsDown ? row : row - PROMOTION_PIECES.length;
+
+  return (
+    <div className="absolute inset-0 z-30 bg-black/40 animate-fade-in" onClick={onCancel}>
+      <div
+        className={`absolute flex ${growsDown ? 'flex-col' : 'flex-col-reverse'} bg-slate-100 rounded-md shadow-2xl overflow-hidden`}
+        style={{ left: `${column * 12.5}%`, top: `${top * 12.5}%`, width: '12.5%', height: `${(PROMOTION_PIECES.length + 1) * 12.5}%` }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {PROMOTION_PIECES.map((type) => (
+          <button
+            key={type}
+            onClick={() => onSelect(type)}
+            className={`flex-1 flex items-center justify-center hover:bg-indigo-200 transition-colors
+              ${suggested === type ? 'ring-inset ring-4 ring-indigo-500' : ''}`}
+          >
+            <div className="w-[85%] h-[85%]">
+              <ChessPiece type={type} color={color} />
+            </div>
+          </button>
+        ))}
+        <button
+          onClick={onCancel}
+          className="flex-1 flex items-center justify-center bg-slate-300 text-slate-600 hover:bg-slate-400 transition-colors"
+        >
+          <X size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
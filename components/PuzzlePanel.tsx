@@ -0,0 +1,104 @@
+import React from 'react';
+import { Puzzle as PuzzleIcon, Flame, X, Eye, SkipForward, CircleCheck, CircleX } from 'lucide-react';
+import { PuzzleSession, PuzzleStats } from '../services/puzzles';
+
+interface PuzzlePanelProps {
+  session: PuzzleSession;
+  stats: PuzzleStats;
+  onShowSolution: () => void;
+  onNext: () => void;
+  onExit: () => void;
+}
+
+// Lichess-style theme ids read better split into words
+const themeLabel = (theme: string) => theme.replace(/([a-z])([A-Z0-9])/g, '$1 $2').toLowerCase();
+
+export const PuzzlePanel: React.FC<PuzzlePanelProps> = ({ session, stats, onShowSolution, onNext, onExit }) => {
+  const { puzzle, status, wrongMove, ratingChange } = session;
+  const finished = status === 'solved' || status === 'failed';
+  const side = session.solverColor === 'w' ? 'White' : 'Black';
+
+  const statusLine = () => {
+    if (status === 'solved') {
+      return (
+        <p className="flex items-center gap-1.5 text-emerald-400">
+          <CircleCheck size={14} /> {session.hintUsed ? 'Solved with a hint' : 'Solved!'}
+        </p>
+      );
+    }
+    if (status === 'failed') return <p className="text-slate-400">Solution shown</p>;
+    if (wrongMove) {
+      return (
+        <p className="flex items-center gap-1.5 text-red-400">
+          <CircleX size={14} /> Not the move, try again
+        </p>
+      );
+    }
+    if (status === 'playing') return <p className="text-slate-300">Find the best move for {side}</p>;
+    return <p className="text-slate-500 animate-pulse">Opponent is replying...</p>;
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-2 space-y-2 animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-indigo-400">
+          <PuzzleIcon size={16} />
+          <h3 className="text-sm font-bold text-white">Puzzle</h3>
+          <span className="text-xs font-mono text-slate-400">
+            {stats.rating}
+            {ratingChange !== null && ratingChange !== 0 && (
+              <span className={ratingChange > 0 ? 'text-emerald-400' : 'text-red-400'}>
+                {' '}{ratingChange > 0 ? `+${ratingChange}` : ratingChange}
+              </span>
+            )}
+          </span>
+          <span className="flex items-center gap-0.5 text-xs font-mono text-amber-400" title={`Best streak ${stats.bestStreak}`}>
+            <Flame size={12} /> {stats.streak}
+          </span>
+        </div>
+        <button onClick={onExit} className="p-1 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Status */}
+      <div className="flex items-center justify-between gap-2 text-xs min-h-[1.25rem]">
+        {statusLine()}
+        <span className="shrink-0 text-slate-500">Rated {puzzle.rating}</span>
+      </div>
+
+      {/* Themes are only revealed afterwards, they give the answer away */}
+      {finished && (
+        <div className="flex flex-wrap gap-1">
+          {puzzle.themes.map((theme) => (
+            <span key={theme} className="px-1.5 py-0.5 rounded bg-slate-800 text-[10px] text-slate-400">
+              {themeLabel(theme)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        {!finished && (
+          <button
+            onClick={onShowSolution}
+            disabled={status !== 'playing'}
+            className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Eye size={14} /> Show Solution
+          </button>
+        )}
+        <button
+          onClick={onNext}
+          disabled={status === 'opponent' || status === 'revealing'}
+          className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+            ${finished ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+        >
+          <SkipForward size={14} /> {finished ? 'Next Puzzle' : 'Skip'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Move } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight } from 'lucide-react';
+import { ChessPiece } from './Pieces';
+import { Variant, createGame } from '../services/variants';
+
+interface PvPreviewProps {
+  fen: string;
+  variant: Variant;
+  pv: string[]; // SAN
+  orientation: 'w' | 'b';
+  squareColor: (isBlack: boolean) => string;
+}
+
+const RANKS = [8, 7, 6, 5, 4, 3, 2, 1];
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+/**
+ * Small read-only board stepping through a principal variation.
+ */
+export const PvPreview: React.FC<PvPreviewProps> = ({ fen, variant, pv, orientation, squareColor }) => {
+  // Verbose moves of the line; anything after an illegal move is ignored
+  const moves = useMemo(() => {
+    const game = createGame(variant, fen);
+    const played: Move[] = [];
+    for (const san of pv) {
+      try {
+        played.push(game.move(san));
+      } catch {
+        break;
+      }
+    }
+    return played;
+  }, [fen, variant, pv]);
+
+  // Open on the candidate move itself
+  const [ply, setPly] = useState(1);
+  useEffect(() => setPly(Math.min(1, moves.length)), [moves]);
+
+  const game = useMemo(() => createGame(variant, ply === 0 ? fen : moves[ply - 1].after), [fen, variant, moves, ply]);
+  const lastMove = ply > 0 ? moves[ply - 1] : null;
+  const ranks = orientation === 'w' ? RANKS : [...RANKS].reverse();
+  const files = orientation === 'w' ? FILES : [...FILES].reverse();
+
+  const navButton = (icon: React.ReactNode, target: number, disabled: boolean) => (
+    <button
+      onClick={() => setPly(target)}
+      disabled={disabled}
+      className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-8 grid-rows-8 aspect-square w-full max-w-[14rem] mx-auto rounded-sm overflow-hidden border-2 border-slate-800">
+        {ranks.map((rank) =>
+          files.map((file) => {
+            const square = `${file}${rank}`;
+            const piece = game.get(square);
+            const isBlack = (RANKS.indexOf(rank) + FILES.indexOf(file)) % 2 === 1;
+            const isLastMove = lastMove?.from === square || lastMove?.to === square;
+            return (
+              <div
+                key={square}
+                className={`flex items-center justify-center ${isLastMove ? (isBlack ? 'bg-yellow-600/60' : 'bg-yellow-200/60') : squareColor(isBlack)}`}
+              >
+                {piece && (
+                  <div className="w-[85%] h-[85%]">
+                    <ChessPiece type={piece.type} color={piece.color} />
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-1">
+        {navButton(<ChevronsLeft size={16} />, 0, ply === 0)}
+        {navButton(<ChevronLeft size={16} />, ply - 1, ply === 0)}
+        <span className="min-w-[4rem] text-center text-xs font-mono text-slate-300">
+          {lastMove ? lastMove.san : 'Start'}
+        </span>
+        {navButton(<ChevronRight size={16} />, ply + 1, ply >= moves.length)}
+        {navButton(<ChevronsRight size={16} />, moves.length, ply >= moves.length)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { History, Play, Plus } from 'lucide-react';
+import { SavedGame } from '../services/gameStorage';
+import { describeTimeControl } from '../services/clock';
+
+interface ResumeGameModalProps {
+  savedGame: SavedGame | null;
+  onResume: () => void;
+  onStartNew: () => void;
+}
+
+export const ResumeGameModal: React.FC<ResumeGameModalProps> = ({ savedGame, onResume, onStartNew }) => {
+  if (!savedGame) return null;
+
+  const moveCount = Math.ceil(savedGame.moves.length / 2);
+  const nameFor = (color: 'w' | 'b') =>
+    savedGame.engineOpponent?.color === color ? 'Computer' : color === 'w' ? savedGame.whiteName : savedGame.blackName;
+  const savedAt = new Date(savedGame.savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden">
+
+        {/* Header */}
+        <div className="flex items-center gap-2 p-4 border-b border-slate-800 bg-slate-800/50">
+          <History size={20} className="text-indigo-400" />
+          <h2 className="text-lg font-bold text-white">Unfinished Game</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-2 text-center">
+          <p className="text-white font-semibold">
+            {nameFor('w')} <span className="text-slate-500 font-normal">vs</span> {nameFor('b')}
+          </p>
+          <p className="text-sm text-slate-400">
+            {moveCount} {moveCount === 1 ? 'move' : 'moves'} · {describeTimeControl(savedGame.timeControl)}
+            {savedGame.gameOver && ' · finished'}
+          </p>
+          <p className="text-xs text-slate-500">Last played {savedAt}</p>
+        </div>
+
+        {/* Footer */}
+        <div className="grid grid-cols-2 gap-2 p-4 bg-slate-950/50 border-t border-slate-800">
+          <button
+            onClick={onStartNew}
+            className="flex items-center justify-center gap-2 py-3 bg-slate-800 hover:bg-slate-700 text-white font-medium rounded-xl transition-colors"
+          >
+            <Plus size={16} /> Start New
+          </button>
+          <button
+            onClick={onResume}
+            className="flex items-center justify-center gap-2 py-3 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-xl shadow-lg shadow-indigo-900/30 transition-colors"
+          >
+            <Play size={16} /> Resume Game
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
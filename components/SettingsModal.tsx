@@ -1,7 +1,15 @@
-import React from 'react';
-import { X, Clock, Palette, Volume2, VolumeX, User } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Clock, Palette, Volume2, VolumeX, User, Cpu, MousePointer2, BrainCircuit, BarChart3, History, Shuffle } from 'lucide-react';
+import { ENGINE_LEVELS } from '../services/engine';
+import { AnalysisProviderId, ANALYSIS_PROVIDERS, isProviderAvailable } from '../services/analysisProvider';
+import { TimeControl, ClockMode, SideTime, TIME_CONTROL_PRESETS, UNTIMED, describeTimeControl, isSameTimeControl } from '../services/clock';
+import { PlayerProfile } from '../services/profiles';
+import { SHAPE_COLORS, ShapeColor } from '../services/shapes';
+import { STANDARD_CHESS960_NUMBER, VARIANTS, Variant, getVariantInfo } from '../services/variants';
 
-export type TimeControl = 1 | 3 | 5 | 10 | 30;
+export type Opponent = 'human' | 'computer';
+export type PlayerSide = 'w' | 'b' | 'random';
+export type MoveInput = 'both' | 'click' | 'drag';
 export type BoardTheme = 'green' | 'brown' | 'blue' | 'slate' | 'purple' | 'burgundy';
 
 interface SettingsModalProps {
@@ -13,12 +21,134 @@ interface SettingsModalProps {
   setBoardTheme: (t: BoardTheme) => void;
   soundEnabled: boolean;
   setSoundEnabled: (s: boolean) => void;
-  whiteName: string;
-  setWhiteName: (n: string) => void;
-  blackName: string;
-  setBlackName: (n: string) => void;
+  profiles: PlayerProfile[];
+  whiteProfileId: string | null;
+  setWhiteProfileId: (id: string | null) => void;
+  blackProfileId: string | null;
+  setBlackProfileId: (id: string | null) => void;
+  onCreateProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  onOpenHistory: () => void;
+  opponent: Opponent;
+  setOpponent: (o: Opponent) => void;
+  playerSide: PlayerSide;
+  setPlayerSide: (s: PlayerSide) => void;
+  engineLevel: number;
+  setEngineLevel: (l: number) => void;
+  rated: boolean;
+  setRated: (r: boolean) => void;
+  variant: Variant;
+  setVariant: (v: Variant) => void;
+  chess960Number: number | null; // null = random start position
+  setChess960Number: (n: number | null) => void;
+  moveInput: MoveInput;
+  setMoveInput: (m: MoveInput) => void;
+  drawColor: ShapeColor;
+  setDrawColor: (c: ShapeColor) => void;
+  analysisProvider: AnalysisProviderId;
+  setAnalysisProvider: (p: AnalysisProviderId) => void;
+  showEvalBar: boolean;
+  setShowEvalBar: (s: boolean) => void;
+  coachComments: boolean; // keep coach tips as comments on the moves
+  setCoachComments: (c: boolean) => void;
 }
 
+const CLOCK_MODES: { value: ClockMode, label: string }[] = [
+  { value: 'fischer', label: 'Increment' },
+  { value: 'bronstein', label: 'Bronstein' },
+  { value: 'delay', label: 'Delay' },
+];
+
+const SideTimeInputs: React.FC<{ label: string, side: SideTime, onChange: (side: SideTime) => void }> = ({ label, side, onChange }) => (
+  <div className="grid grid-cols-[3rem_1fr_1fr] gap-2 items-center">
+    <span className="text-xs text-slate-500 font-medium">{label}</span>
+    <label className="flex items-center gap-1 text-xs text-slate-500">
+      <input
+        type="number"
+        min={0.5}
+        max={180}
+        step={0.5}
+        value={side.base / 60}
+        onChange={(e) => onChange({ ...side, base: Math.max(30, Math.round(Number(e.target.value) * 60) || 0) })}
+        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+      />
+      min
+    </label>
+    <label className="flex items-center gap-1 text-xs text-slate-500">
+      <span>+</span>
+      <input
+        type="number"
+        min={0}
+        max={60}
+        value={side.increment}
+        onChange={(e) => onChange({ ...side, increment: Math.min(60, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+      />
+      sec
+    </label>
+  </div>
+);
+
+// Presets plus a custom editor for base time, increment/delay and handicaps
+const TimeControlPicker: React.FC<{ timeControl: TimeControl, setTimeControl: (t: TimeControl) => void }> = ({ timeControl, setTimeControl }) => {
+  const sidesDiffer = timeControl.white.base !== timeControl.black.base || timeControl.white.increment !== timeControl.black.increment;
+  const [handicap, setHandicap] = useState(sidesDiffer);
+
+  const setWhite = (white: SideTime) => setTimeControl({ ...timeControl, white, black: handicap ? timeControl.black : white });
+  const setBlack = (black: SideTime) => setTimeControl({ ...timeControl, black });
+  const toggleHandicap = () => {
+    if (handicap) setTimeControl({ ...timeControl, black: timeControl.white });
+    setHandicap(!handicap);
+  };
+
+  const presetClass = (active: boolean) => `py-2 rounded-lg text-sm font-bold transition-all
+    ${active
+      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+      : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`;
+
+  return (
+    <>
+      <div className="grid grid-cols-4 gap-2">
+        {TIME_CONTROL_PRESETS.map((preset) => (
+          <button
+            key={describeTimeControl(preset)}
+            onClick={() => { setHandicap(false); setTimeControl(preset); }}
+            className={presetClass(isSameTimeControl(timeControl, preset))}
+          >
+            {describeTimeControl(preset)}
+          </button>
+        ))}
+        <button onClick={() => setTimeControl(UNTIMED)} className={presetClass(timeControl.untimed)}>
+          ∞
+        </button>
+      </div>
+
+      {!timeControl.untimed && (
+        <div className="space-y-3 bg-slate-800/50 rounded-xl p-3">
+          <div className="grid grid-cols-3 gap-2">
+            {CLOCK_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setTimeControl({ ...timeControl, mode: value })}
+                className={`py-1.5 rounded-lg text-xs font-bold transition-all
+                  ${timeControl.mode === value ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <SideTimeInputs label={handicap ? 'White' : 'Both'} side={timeControl.white} onChange={setWhite} />
+          {handicap && <SideTimeInputs label="Black" side={timeControl.black} onChange={setBlack} />}
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={handicap} onChange={toggleHandicap} className="accent-indigo-500" />
+            Separate times per side (handicap)
+          </label>
+        </div>
+      )}
+    </>
+  );
+};
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
@@ -28,13 +158,52 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   setBoardTheme,
   soundEnabled,
   setSoundEnabled,
-  whiteName,
-  setWhiteName,
-  blackName,
-  setBlackName
+  profiles,
+  whiteProfileId,
+  setWhiteProfileId,
+  blackProfileId,
+  setBlackProfileId,
+  onCreateProfile,
+  onDeleteProfile,
+  onOpenHistory,
+  opponent,
+  setOpponent,
+  playerSide,
+  setPlayerSide,
+  engineLevel,
+  setEngineLevel,
+  rated,
+  setRated,
+  variant,
+  setVariant,
+  chess960Number,
+  setChess960Number,
+  moveInput,
+  setMoveInput,
+  drawColor,
+  setDrawColor,
+  analysisProvider,
+  setAnalysisProvider,
+  showEvalBar,
+  setShowEvalBar,
+  coachComments,
+  setCoachComments
 }) => {
+  const [newProfileName, setNewProfileName] = useState('');
+
   if (!isOpen) return null;
 
+  const addProfile = () => {
+    if (!newProfileName.trim()) return;
+    onCreateProfile(newProfileName.trim());
+    setNewProfileName('');
+  };
+
+  // Against the computer only one seat is a person, the White pick
+  const seats: [string, string | null, (id: string | null) => void, string | null][] = opponent === 'computer'
+    ? [['You', whiteProfileId, setWhiteProfileId, null]]
+    : [['White', whiteProfileId, setWhiteProfileId, blackProfileId], ['Black', blackProfileId, setBlackProfileId, whiteProfileId]];
+
   const themes: Record<BoardTheme, { label: string, color: string }> = {
     green: { label: 'Classic Green', color: 'bg-[#779556]' },
     brown: { label: 'Wood Brown', color: 'bg-[#b58863]' },
@@ -60,61 +229,208 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
         {/* Content */}
         <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
-          
-          {/* Player Names */}
+
+          {/* Opponent */}
           <div className="space-y-3">
             <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
-              <User size={16} /> Player Names
+              <Cpu size={16} /> Opponent
             </label>
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-1">
-                <label className="text-xs text-slate-500 font-medium">White</label>
-                <input 
-                  type="text" 
-                  value={whiteName}
-                  maxLength={12}
-                  onChange={(e) => setWhiteName(e.target.value)}
-                  onBlur={() => { if (!whiteName.trim()) setWhiteName('White'); }}
-                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-colors placeholder-slate-600"
-                  placeholder="White"
-                />
-              </div>
-              <div className="space-y-1">
-                <label className="text-xs text-slate-500 font-medium">Black</label>
-                <input 
-                  type="text" 
-                  value={blackName}
-                  maxLength={12}
-                  onChange={(e) => setBlackName(e.target.value)}
-                  onBlur={() => { if (!blackName.trim()) setBlackName('Black'); }}
-                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-colors placeholder-slate-600"
-                  placeholder="Black"
-                />
+            <div className="grid grid-cols-2 gap-2">
+              {([['human', 'Hot-seat'], ['computer', 'Play vs Computer']] as [Opponent, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setOpponent(value)}
+                  className={`py-2 rounded-lg text-sm font-bold transition-all
+                    ${opponent === value
+                      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                      : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {opponent === 'computer' && (
+              <>
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-500 font-medium">Play as</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([['w', 'White'], ['b', 'Black'], ['random', 'Random']] as [PlayerSide, string][]).map(([value, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => setPlayerSide(value)}
+                        className={`py-2 rounded-lg text-sm font-bold transition-all
+                          ${playerSide === value
+                            ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-slate-500 font-medium">Strength</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {ENGINE_LEVELS.map((l) => (
+                      <button
+                        key={l.level}
+                        onClick={() => setEngineLevel(l.level)}
+                        className={`py-2 rounded-lg text-xs font-bold transition-all
+                          ${engineLevel === l.level
+                            ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                      >
+                        {l.level}. {l.label}
+                        <span className="block text-[10px] font-normal opacity-70">{l.rating}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-slate-300 font-medium">Rated game</p>
+                <p className="text-xs text-slate-500">Needs a profile for every player at the board. Standard chess only.</p>
               </div>
+              <button
+                onClick={() => setRated(!rated)}
+                className={`w-12 h-6 shrink-0 rounded-full transition-colors relative ${rated ? 'bg-indigo-600' : 'bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${rated ? 'left-7' : 'left-1'}`} />
+              </button>
             </div>
+            <p className="text-xs text-slate-500 text-center">Changes apply on next game reset.</p>
           </div>
 
           <hr className="border-slate-800" />
-          
-          {/* Time Control */}
+
+          {/* Variant */}
           <div className="space-y-3">
             <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
-              <Clock size={16} /> Time Control (Minutes)
+              <Shuffle size={16} /> Variant
             </label>
-            <div className="grid grid-cols-5 gap-2">
-              {[1, 3, 5, 10, 30].map((t) => (
+            <div className="grid grid-cols-2 gap-2">
+              {VARIANTS.map((v) => (
                 <button
-                  key={t}
-                  onClick={() => setTimeControl(t as TimeControl)}
+                  key={v.value}
+                  onClick={() => setVariant(v.value)}
                   className={`py-2 rounded-lg text-sm font-bold transition-all
-                    ${timeControl === t 
-                      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50' 
+                    ${variant === v.value
+                      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
                       : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
                 >
-                  {t}m
+                  {v.label}
                 </button>
               ))}
             </div>
+            <p className="text-xs text-slate-500">{getVariantInfo(variant).description}</p>
+
+            {variant === 'chess960' && (
+              <div className="space-y-1">
+                <label className="text-xs text-slate-500 font-medium">Start position</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => setChess960Number(null)}
+                    className={`py-2 rounded-lg text-sm font-bold transition-all
+                      ${chess960Number === null
+                        ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                        : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                  >
+                    Random
+                  </button>
+                  <input
+                    type="number"
+                    min={0}
+                    max={959}
+                    value={chess960Number ?? ''}
+                    placeholder={`0-959, e.g. ${STANDARD_CHESS960_NUMBER}`}
+                    onChange={(e) => {
+                      const n = parseInt(e.target.value, 10);
+                      setChess960Number(Number.isNaN(n) ? null : Math.max(0, Math.min(959, n)));
+                    }}
+                    className={`w-full bg-slate-800 border rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-indigo-500
+                      ${chess960Number !== null ? 'border-indigo-500' : 'border-slate-700'}`}
+                  />
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-slate-500 text-center">Changes apply on next game reset.</p>
+          </div>
+
+          <hr className="border-slate-800" />
+          
+          {/* Players */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <User size={16} /> Players
+            </label>
+            <div className={`grid gap-3 ${seats.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+              {seats.map(([label, value, setValue, otherSeat]) => (
+                <div key={label} className="space-y-1">
+                  <label className="text-xs text-slate-500 font-medium">{label}</label>
+                  <select
+                    value={value ?? ''}
+                    onChange={(e) => setValue(e.target.value || null)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-colors"
+                  >
+                    <option value="">Guest</option>
+                    {profiles.map((p) => (
+                      <option key={p.id} value={p.id} disabled={p.id === otherSeat}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {/* Manage profiles */}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newProfileName}
+                maxLength={12}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addProfile(); }}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-colors placeholder-slate-600"
+                placeholder="New profile name"
+              />
+              <button
+                onClick={addProfile}
+                disabled={!newProfileName.trim()}
+                className="px-4 bg-slate-800 hover:bg-slate-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </div>
+            {profiles.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {profiles.map((p) => (
+                  <span key={p.id} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-slate-800 text-xs text-slate-300">
+                    {p.name}
+                    <button onClick={() => onDeleteProfile(p.id)} className="p-0.5 rounded-full text-slate-500 hover:text-white hover:bg-slate-700 transition-colors">
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={onOpenHistory}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 transition-colors"
+            >
+              <History size={16} /> Game History &amp; Stats
+            </button>
+          </div>
+
+          <hr className="border-slate-800" />
+          
+          {/* Time Control */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <Clock size={16} /> Time Control
+            </label>
+            <TimeControlPicker timeControl={timeControl} setTimeControl={setTimeControl} />
             <p className="text-xs text-slate-500 text-center">Changes apply on next game reset.</p>
           </div>
 
@@ -142,6 +458,94 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
           <hr className="border-slate-800" />
 
+          {/* Move Input */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <MousePointer2 size={16} /> Move Input
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([['both', 'Both'], ['click', 'Tap'], ['drag', 'Drag']] as [MoveInput, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setMoveInput(value)}
+                  className={`py-2 rounded-lg text-sm font-bold transition-all
+                    ${moveInput === value
+                      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                      : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-slate-300 font-medium">Arrow colour</p>
+                <p className="text-xs text-slate-500">Right-drag or long-press to draw. Shift, Alt or both for red, blue or yellow.</p>
+              </div>
+              <div className="flex gap-1.5 shrink-0">
+                {SHAPE_COLORS.map((c) => (
+                  <button
+                    key={c.value}
+                    onClick={() => setDrawColor(c.value)}
+                    title={c.label}
+                    style={{ backgroundColor: c.stroke }}
+                    className={`w-6 h-6 rounded-full border-2 transition-all ${drawColor === c.value ? 'border-white scale-110' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Coach */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <BrainCircuit size={16} /> Hint &amp; Coach
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {ANALYSIS_PROVIDERS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setAnalysisProvider(id)}
+                  className={`py-2 rounded-lg text-sm font-bold transition-all
+                    ${analysisProvider === id
+                      ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50'
+                      : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {!isProviderAvailable(analysisProvider) && (
+              <p className="text-xs text-slate-500 text-center">No Gemini API key configured, using the local engine.</p>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-slate-300">Save coach tips as move comments</span>
+              <button
+                onClick={() => setCoachComments(!coachComments)}
+                className={`w-12 h-6 rounded-full transition-colors relative ${coachComments ? 'bg-indigo-600' : 'bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${coachComments ? 'left-7' : 'left-1'}`} />
+              </button>
+            </div>
+          </div>
+
+          <hr className="border-slate-800" />
+
+          {/* Evaluation Bar */}
+           <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                <BarChart3 size={16} /> Evaluation Bar
+              </label>
+              <button 
+                onClick={() => setShowEvalBar(!showEvalBar)}
+                className={`w-12 h-6 rounded-full transition-colors relative ${showEvalBar ? 'bg-indigo-600' : 'bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${showEvalBar ? 'left-7' : 'left-1'}`} />
+              </button>
+           </div>
+
           {/* Sound */}
            <div className="flex items-center justify-between">
               <label className="text-sm font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
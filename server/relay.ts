@@ -0,0 +1,392 @@
+// Multiplayer relay for playing across two devices on a LAN. Rooms live in
+// memory; the server keeps the authoritative move list and clock, checks
+// every move with chess.js and stamps clocks with its own time.
+//
+//   npm run relay            (RELAY_PORT defaults to 8787)
+
+import { randomBytes, randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { Chess } from 'chess.js';
+import { ClockState, SideTime, TimeControl, createClock, getRemaining, pressClock, setClockTurn } from '../services/clock';
+import { ClientMessage, RELAY_DEFAULT_PORT, RelayMove, RoomState, ServerMessage } from '../services/relayProtocol';
+import { hasMatingMaterial } from '../services/material';
+import { GameResult } from '../types';
+
+type Color = 'w' | 'b';
+
+interface Seat {
+  token: string;
+  name: string;
+  socket: WebSocket | null;
+}
+
+interface Room {
+  code: string;
+  game: Chess;
+  startFen: string;
+  timeControl: TimeControl;
+  clock: ClockState;
+  seats: Record<Color, Seat | null>;
+  drawOffer: Color | null;
+  ending: GameResult | null;
+  emptySince: number | null;
+  flagTimer: NodeJS.Timeout | null;
+}
+
+// Rooms nobody is connected to are dropped after this long
+const ROOM_TTL_MS = 10 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+// No 0/O or 1/I, codes are read out across the room
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+
+const rooms = new Map<string, Room>();
+
+const newCode = () => {
+  let code: string;
+  do {
+    code = Array.from(randomBytes(CODE_LENGTH), (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: ServerMessage) => {
+  send(room.seats.w?.socket ?? null, message);
+  send(room.seats.b?.socket ?? null, message);
+};
+
+const roomState = (room: Room): RoomState => ({
+  code: room.code,
+  startFen: room.startFen,
+  moves: room.game.history(),
+  timeControl: room.timeControl,
+  clock: room.clock,
+  names: { w: room.seats.w?.name ?? null, b: room.seats.b?.name ?? null },
+  connected: { w: !!room.seats.w?.socket, b: !!room.seats.b?.socket },
+  drawOffer: room.drawOffer,
+  ending: room.ending,
+});
+
+const sendState = (socket: WebSocket, room: Room) =>
+  send(socket, { type: 'state', room: roomState(room), serverNow: Date.now() });
+
+const broadcastPresence = (room: Room) =>
+  broadcast(room, { type: 'presence', connected: { w: !!room.seats.w?.socket, b: !!room.seats.b?.socket } });
+
+const endRoom = (room: Room, ending: GameResult) => {
+  const now = Date.now();
+  room.ending = ending;
+  room.drawOffer = null;
+  room.clock = setClockTurn(room.clock, room.timeControl, null, now);
+  watchFlag(room);
+  broadcast(room, { type: 'ended', ending, clock: room.clock, serverNow: now });
+};
+
+// A flag fall only loses if the opponent could still mate
+const flagFall = (room: Room, color: Color) => {
+  const opponent: Color = color === 'w' ? 'b' : 'w';
+  endRoom(room, { winner: hasMatingMaterial(room.game, opponent) ? opponent : null, termination: 'timeout' });
+};
+
+// Ends the game when the side to move runs out of time, whether or not it moves again
+const watchFlag = (room: Room) => {
+  if (room.flagTimer) clearTimeout(room.flagTimer);
+  room.flagTimer = null;
+  const color = room.clock.running;
+  if (!color || room.ending) return;
+  room.flagTimer = setTimeout(() => {
+    room.flagTimer = null;
+    if (room.ending || room.clock.running !== color) return;
+    if (getRemaining(room.clock, room.timeControl, color, Date.now()) > 0) return watchFlag(room);
+    flagFall(room, color);
+  }, Math.max(0, getRemaining(room.clock, room.timeControl, color, Date.now())));
+};
+
+// Which room and seat each socket plays in
+const connections = new Map<WebSocket, { room: Room; color: Color }>();
+
+const seat = (socket: WebSocket, room: Room, color: Color, name: string) => {
+  const token = randomUUID();
+  room.seats[color] = { token, name, socket };
+  room.emptySince = null;
+  connections.set(socket, { room, color });
+  // The clock starts once both players are seated
+  if (room.seats.w && room.seats.b && !room.clock.running && room.game.history().length === 0) {
+    room.clock = setClockTurn(room.clock, room.timeControl, room.game.turn(), Date.now());
+    watchFlag(room);
+  }
+  send(socket, { type: 'seated', color, token, room: roomState(room), serverNow: Date.now() });
+};
+
+const handleCreate = (socket: WebSocket, message: Extract<ClientMessage, { type: 'create' }>) => {
+  const game = new Chess();
+  const room: Room = {
+    code: newCode(),
+    game,
+    startFen: game.fen(),
+    timeControl: message.timeControl,
+    clock: createClock(message.timeControl, null, Date.now()),
+    seats: { w: null, b: null },
+    drawOffer: null,
+    ending: null,
+    emptySince: null,
+    flagTimer: null,
+  };
+  rooms.set(room.code, room);
+  const color: Color = message.color === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : message.color;
+  seat(socket, room, color, message.name);
+  console.log(`Room ${room.code} created`);
+};
+
+const handleJoin = (socket: WebSocket, message: Extract<ClientMessage, { type: 'join' }>) => {
+  const room = rooms.get(message.code.trim().toUpperCase());
+  if (!room) return send(socket, { type: 'error', message: 'No game with that code.' });
+  const color: Color | null = !room.seats.w ? 'w' : !room.seats.b ? 'b' : null;
+  if (!color) return send(socket, { type: 'error', message: 'That game already has two players.' });
+  seat(socket, room, color, message.name);
+  // The creator learns the opponent's name and that the clock is running
+  const other = room.seats[color === 'w' ? 'b' : 'w'];
+  if (other?.socket) sendState(other.socket, room);
+};
+
+const handleRejoin = (socket: WebSocket, message: Extract<ClientMessage, { type: 'rejoin' }>) => {
+  const room = rooms.get(message.code);
+  const color = room && (['w', 'b'] as Color[]).find((c) => room.seats[c]?.token === message.token);
+  if (!room || !color) return send(socket, { type: 'error', message: 'That game has ended or expired.' });
+
+  const seatInfo = room.seats[color]!;
+  // A newer connection replaces a stale one that hasn't noticed it dropped
+  if (seatInfo.socket && seatInfo.socket !== socket) {
+    connections.delete(seatInfo.socket);
+    seatInfo.socket.terminate();
+  }
+  seatInfo.socket = socket;
+  room.emptySince = null;
+  connections.set(socket, { room, color });
+  send(socket, { type: 'seated', color, token: seatInfo.token, room: roomState(room), serverNow: Date.now() });
+  broadcastPresence(room);
+};
+
+const handleMove = (socket: WebSocket, message: Extract<ClientMessage, { type: 'move' }>) => {
+  const connection = connections.get(socket);
+  if (!connection) return send(socket, { type: 'error', message: 'Not in a game.' });
+  const { room, color } = connection;
+  const { game, timeControl } = room;
+  const now = Date.now();
+
+  // Anything out of step gets the authoritative state back instead
+  const reject = (reason: string) => {
+    send(socket, { type: 'error', message: reason });
+    sendState(socket, room);
+  };
+  if (!room.seats.w || !room.seats.b) return reject('Waiting for an opponent.');
+  if (room.ending) return reject('The game is over.');
+  if (message.ply !== game.history().length) return reject('Out of sync with the game.');
+  if (game.isGameOver() || game.turn() !== color) return reject('Not your turn.');
+  if (!timeControl.untimed && getRemaining(room.clock, timeControl, color, now) <= 0) {
+    flagFall(room, color);
+    return reject('Your time is up.');
+  }
+
+  let result;
+  try {
+    result = game.move(message.move);
+  } catch {
+    return reject('Illegal move.');
+  }
+
+  const pressed = pressClock(room.clock, timeControl, now);
+  room.clock = game.isGameOver() ? setClockTurn(pressed, timeControl, null, now) : pressed;
+  watchFlag(room);
+  broadcast(room, {
+    type: 'move',
+    move: { from: result.from, to: result.to, promotion: result.promotion },
+    san: result.san,
+    ply: message.ply,
+    clock: room.clock,
+    serverNow: now,
+  });
+  // Moving instead of answering declines the opponent's offer
+  if (room.drawOffer && room.drawOffer !== color) {
+    room.drawOffer = null;
+    broadcast(room, { type: 'drawOffer', color: null });
+  }
+};
+
+// The room and seat of a player who may still end the game, or null after telling them why not
+const activeConnection = (socket: WebSocket) => {
+  const connection = connections.get(socket);
+  if (!connection) {
+    send(socket, { type: 'error', message: 'Not in a game.' });
+    return null;
+  }
+  const { room } = connection;
+  if (!room.seats.w || !room.seats.b || room.ending || room.game.isGameOver()) {
+    send(socket, { type: 'error', message: 'The game is not in progress.' });
+    return null;
+  }
+  return connection;
+};
+
+const handleResign = (socket: WebSocket) => {
+  const connection = activeConnection(socket);
+  if (!connection) return;
+  endRoom(connection.room, { winner: connection.color === 'w' ? 'b' : 'w', termination: 'resignation' });
+};
+
+const handleOfferDraw = (socket: WebSocket) => {
+  const connection = activeConnection(socket);
+  if (!connection) return;
+  const { room, color } = connection;
+  if (room.drawOffer && room.drawOffer !== color) return endRoom(room, { winner: null, termination: 'agreement' });
+  room.drawOffer = color;
+  broadcast(room, { type: 'drawOffer', color });
+};
+
+const handleAnswerDraw = (socket: WebSocket, message: Extract<ClientMessage, { type: 'answerDraw' }>) => {
+  const connection = activeConnection(socket);
+  if (!connection) return;
+  const { room, color } = connection;
+  if (!room.drawOffer || room.drawOffer === color) return;
+  if (message.accept) return endRoom(room, { winner: null, termination: 'agreement' });
+  room.drawOffer = null;
+  broadcast(room, { type: 'drawOffer', color: null });
+};
+
+const disconnect = (socket: WebSocket) => {
+  const connection = connections.get(socket);
+  if (!connection) return;
+  connections.delete(socket);
+  const { room, color } = connection;
+  const seatInfo = room.seats[color];
+  if (seatInfo?.socket === socket) seatInfo.socket = null;
+  if (!room.seats.w?.socket && !room.seats.b?.socket) room.emptySince = Date.now();
+  broadcastPresence(room);
+};
+
+const handleLeave = (socket: WebSocket) => {
+  const connection = connections.get(socket);
+  if (!connection) return;
+  disconnect(socket);
+  const { room, color } = connection;
+  // Before the first move the seat is freed for someone else; after it, leaving
+  // just gives up the right to reconnect
+  room.seats[color] = room.game.history().length === 0 ? null : { ...room.seats[color]!, token: randomUUID() };
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isSideTime = (side: unknown) => {
+  const s = side as SideTime | null;
+  return !!s && Number.isFinite(s.base) && s.base >= 0 && Number.isFinite(s.increment) && s.increment >= 0;
+};
+
+const isTimeControl = (value: unknown) => {
+  const tc = value as TimeControl | null;
+  return !!tc && typeof tc.untimed === 'boolean' && ['fischer', 'bronstein', 'delay'].includes(tc.mode) &&
+    isSideTime(tc.white) && isSideTime(tc.black);
+};
+
+/**
+ * Checks a decoded message has the fields its type needs, so handlers can
+ * trust them. Returns null for anything else.
+ */
+const parseClientMessage = (data: unknown): ClientMessage | null => {
+  const m = data as Record<string, unknown> | null;
+  if (!m || typeof m !== 'object') return null;
+  switch (m.type) {
+    case 'create':
+      return isString(m.name) && ['w', 'b', 'random'].includes(m.color as string) && isTimeControl(m.timeControl)
+        ? (m as ClientMessage) : null;
+    case 'join':
+      return isString(m.code) && isString(m.name) ? (m as ClientMessage) : null;
+    case 'rejoin':
+      return isString(m.code) && isString(m.token) ? (m as ClientMessage) : null;
+    case 'move': {
+      const move = m.move as RelayMove | null;
+      const validMove = !!move && isString(move.from) && isString(move.to) &&
+        (move.promotion === undefined || isString(move.promotion));
+      return validMove && Number.isInteger(m.ply) ? (m as ClientMessage) : null;
+    }
+    case 'answerDraw':
+      return typeof m.accept === 'boolean' ? (m as ClientMessage) : null;
+    case 'resign':
+    case 'offerDraw':
+    case 'sync':
+    case 'leave':
+      return m as ClientMessage;
+    default:
+      return null;
+  }
+};
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+  switch (message.type) {
+    case 'create': return handleCreate(socket, message);
+    case 'join': return handleJoin(socket, message);
+    case 'rejoin': return handleRejoin(socket, message);
+    case 'move': return handleMove(socket, message);
+    case 'resign': return handleResign(socket);
+    case 'offerDraw': return handleOfferDraw(socket);
+    case 'answerDraw': return handleAnswerDraw(socket, message);
+    case 'sync': {
+      const connection = connections.get(socket);
+      return connection && sendState(socket, connection.room);
+    }
+    case 'leave': return handleLeave(socket);
+  }
+};
+
+const port = Number(process.env.RELAY_PORT) || RELAY_DEFAULT_PORT;
+const server = new WebSocketServer({ port, host: '0.0.0.0' });
+const alive = new WeakMap<WebSocket, boolean>();
+
+server.on('connection', (socket) => {
+  alive.set(socket, true);
+  socket.on('pong', () => alive.set(socket, true));
+
+  socket.on('message', (data) => {
+    let message: ClientMessage | null;
+    try {
+      message = parseClientMessage(JSON.parse(data.toString()));
+    } catch {
+      message = null;
+    }
+    if (!message) return send(socket, { type: 'error', message: 'Malformed message.' });
+    // A bad message from one client must not take the relay down for every room
+    try {
+      handleMessage(socket, message);
+    } catch (error) {
+      console.warn('Failed to handle message', error);
+      send(socket, { type: 'error', message: 'Malformed message.' });
+    }
+  });
+
+  socket.on('close', () => disconnect(socket));
+});
+
+// Drop connections that stopped answering, and rooms left empty too long
+setInterval(() => {
+  for (const socket of server.clients) {
+    if (!alive.get(socket)) {
+      socket.terminate();
+      continue;
+    }
+    alive.set(socket, false);
+    socket.ping();
+  }
+  const now = Date.now();
+  for (const [code, room] of rooms) {
+    if (room.emptySince !== null && now - room.emptySince > ROOM_TTL_MS) {
+      if (room.flagTimer) clearTimeout(room.flagTimer);
+      rooms.delete(code);
+      console.log(`Room ${code} expired`);
+    }
+  }
+}, HEARTBEAT_MS);
+
+server.on('listening', () => console.log(`Chess relay listening on ws://0.0.0.0:${port}`));
@@ -0,0 +1,39 @@
+import { AnalysisResult } from '../types';
+import { geminiProvider, isGeminiAvailable } from './geminiService';
+import { localEngineProvider } from './localEngineProvider';
+import { Variant } from './variants';
+
+export type AnalysisProviderId = 'gemini' | 'engine';
+
+/**
+ * Backend for the Hint and Coach features. Positions are passed as FEN with
+ * the game's variant; moves are returned in SAN.
+ */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  // Short verdict such as "White is winning" or "Equal"
+  evaluatePosition: (fen: string, variant: Variant) => Promise<string>;
+  // bestMove is legal SAN when present; illegalMove reports a rejected suggestion
+  suggestMove: (fen: string, variant: Variant) => Promise<Pick<AnalysisResult, 'bestMove' | 'illegalMove'>>;
+  // Evaluation, best move and a short explanation together
+  explainPosition: (fen: string, variant: Variant) => Promise<AnalysisResult>;
+  // One-line spectator remark about `lastMove`, played to reach `fen`
+  coachComment: (fen: string, lastMove: string, variant: Variant) => Promise<string>;
+}
+
+export const ANALYSIS_PROVIDERS: { id: AnalysisProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'engine', label: 'Local Engine' },
+];
+
+export const isProviderAvailable = (id: AnalysisProviderId) => id !== 'gemini' || isGeminiAvailable();
+
+/**
+ * The provider picked in settings, or the local engine when Gemini has no
+ * API key configured.
+ */
+export const getAnalysisProvider = (id: AnalysisProviderId): AnalysisProvider => {
+  if (id === 'gemini' && isGeminiAvailable()) return geminiProvider;
+  return localEngineProvider;
+};
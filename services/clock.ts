@@ -0,0 +1,180 @@
+// Chess clock model. Remaining time is derived from wall-clock timestamps
+// rather than counted ticks, so throttled background tabs stay accurate.
+
+export type ClockMode = 'fischer' | 'bronstein' | 'delay';
+
+export interface SideTime {
+  base: number; // seconds
+  increment: number; // seconds (increment for Fischer, delay for Bronstein/simple delay)
+}
+
+export interface TimeControl {
+  untimed: boolean;
+  mode: ClockMode;
+  white: SideTime;
+  black: SideTime;
+}
+
+export interface ClockState {
+  white: number; // ms banked at the start of the current turn
+  black: number;
+  running: 'w' | 'b' | null;
+  turnStartedAt: number | null; // epoch ms
+}
+
+export const timeControl = (minutes: number, increment = 0, mode: ClockMode = 'fischer'): TimeControl => ({
+  untimed: false,
+  mode,
+  white: { base: minutes * 60, increment },
+  black: { base: minutes * 60, increment },
+});
+
+export const UNTIMED: TimeControl = { ...timeControl(10), untimed: true };
+
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+  timeControl(1),
+  timeControl(3),
+  timeControl(3, 2),
+  timeControl(5),
+  timeControl(10),
+  timeControl(15, 10),
+  timeControl(30),
+];
+
+/**
+ * Accepts both the current shape and the legacy whole-minutes number
+ * that older versions stored in localStorage.
+ */
+export const normalizeTimeControl = (saved: unknown): TimeControl => {
+  if (typeof saved === 'number') return timeControl(saved);
+  const tc = saved as TimeControl;
+  if (tc && tc.white && tc.black && tc.mode) return tc;
+  return timeControl(10);
+};
+
+export const isSameTimeControl = (a: TimeControl, b: TimeControl) =>
+  a.untimed === b.untimed &&
+  (a.untimed || (
+    a.mode === b.mode &&
+    a.white.base === b.white.base && a.white.increment === b.white.increment &&
+    a.black.base === b.black.base && a.black.increment === b.black.increment
+  ));
+
+const isSameSides = (tc: TimeControl) =>
+  tc.white.base === tc.black.base && tc.white.increment === tc.black.increment;
+
+const formatSide = (side: SideTime) => {
+  const minutes = side.base / 60;
+  return `${Number.isInteger(minutes) ? minutes : minutes.toFixed(1)}+${side.increment}`;
+};
+
+/**
+ * Short label such as "3+2", "15+10 delay" or "5+0 / 3+0" for handicaps.
+ */
+export const describeTimeControl = (tc: TimeControl): string => {
+  if (tc.untimed) return 'Untimed';
+  const sides = isSameSides(tc) ? formatSide(tc.white) : `${formatSide(tc.white)} / ${formatSide(tc.black)}`;
+  const suffix = tc.mode === 'fischer' ? '' : tc.mode === 'bronstein' ? ' Bronstein' : ' delay';
+  return `${sides}${suffix}`;
+};
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'untimed';
+
+export const TIME_CONTROL_CATEGORIES: { value: TimeControlCategory, label: string }[] = [
+  { value: 'bullet', label: 'Bullet' },
+  { value: 'blitz', label: 'Blitz' },
+  { value: 'rapid', label: 'Rapid' },
+  { value: 'classical', label: 'Classical' },
+  { value: 'untimed', label: 'Untimed' },
+];
+
+/**
+ * Speed category from the estimated game length, base + 40 × increment as
+ * most servers count it. Handicaps use the average of both sides.
+ */
+export const getTimeControlCategory = (tc: TimeControl): TimeControlCategory => {
+  if (tc.untimed) return 'untimed';
+  const estimate = (side: SideTime) => side.base + 40 * side.increment;
+  const seconds = (estimate(tc.white) + estimate(tc.black)) / 2;
+  if (seconds < 180) return 'bullet';
+  if (seconds < 480) return 'blitz';
+  if (seconds < 1500) return 'rapid';
+  return 'classical';
+};
+
+/**
+ * PGN TimeControl tag ("-" when untimed, "600+5" otherwise). PGN has no
+ * notation for handicaps, so those record each side in its own tag.
+ */
+export const pgnTimeControlTags = (tc: TimeControl): Record<string, string> => {
+  if (tc.untimed) return { TimeControl: '-' };
+  const format = (side: SideTime) => (side.increment ? `${side.base}+${side.increment}` : `${side.base}`);
+  if (isSameSides(tc)) return { TimeControl: format(tc.white) };
+  return { TimeControl: '?', WhiteTimeControl: format(tc.white), BlackTimeControl: format(tc.black) };
+};
+
+/**
+ * Reads a PGN TimeControl tag such as "600" or "180+2" back into a time control.
+ */
+export const parsePgnTimeControl = (tag?: string): TimeControl | null => {
+  if (tag === '-') return UNTIMED;
+  const match = tag?.match(/^(\d+)(?:\+(\d+))?$/);
+  if (!match) return null;
+  const side = { base: parseInt(match[1], 10), increment: match[2] ? parseInt(match[2], 10) : 0 };
+  return { untimed: false, mode: 'fischer', white: side, black: { ...side } };
+};
+
+// Untimed games keep a stopped clock so nobody can flag
+export const createClock = (tc: TimeControl, running: 'w' | 'b' | null, now: number): ClockState => ({
+  white: tc.white.base * 1000,
+  black: tc.black.base * 1000,
+  running: tc.untimed ? null : running,
+  turnStartedAt: running && !tc.untimed ? now : null,
+});
+
+const sideTime = (tc: TimeControl, color: 'w' | 'b') => (color === 'w' ? tc.white : tc.black);
+
+/**
+ * Time left in ms for `color` at `now`, including time used on the current turn.
+ */
+export const getRemaining = (clock: ClockState, tc: TimeControl, color: 'w' | 'b', now: number): number => {
+  const banked = color === 'w' ? clock.white : clock.black;
+  if (clock.running !== color || clock.turnStartedAt === null) return banked;
+
+  const elapsed = Math.max(0, now - clock.turnStartedAt);
+  // Simple (US) delay: the clock only starts counting down after the delay
+  const charged = tc.mode === 'delay' ? Math.max(0, elapsed - sideTime(tc, color).increment * 1000) : elapsed;
+  return Math.max(0, banked - charged);
+};
+
+const withBanked = (clock: ClockState, color: 'w' | 'b', ms: number): ClockState =>
+  color === 'w' ? { ...clock, white: ms } : { ...clock, black: ms };
+
+/**
+ * Ends the running side's turn after a move, applying its increment or
+ * delay refund, and starts the opponent's clock.
+ */
+export const pressClock = (clock: ClockState, tc: TimeControl, now: number): ClockState => {
+  const color = clock.running;
+  if (!color || clock.turnStartedAt === null) return clock;
+
+  const elapsed = Math.max(0, now - clock.turnStartedAt);
+  let remaining = getRemaining(clock, tc, color, now);
+  if (remaining > 0) {
+    const increment = sideTime(tc, color).increment * 1000;
+    if (tc.mode === 'fischer') remaining += increment;
+    // Bronstein: give back the time used, up to the delay
+    else if (tc.mode === 'bronstein') remaining += Math.min(elapsed, increment);
+  }
+
+  return { ...withBanked(clock, color, remaining), running: color === 'w' ? 'b' : 'w', turnStartedAt: now };
+};
+
+/**
+ * Hands the clock to `color` without any increment (takebacks, loads).
+ */
+export const setClockTurn = (clock: ClockState, tc: TimeControl, color: 'w' | 'b' | null, now: number): ClockState => {
+  const stopped = clock.running ? withBanked(clock, clock.running, getRemaining(clock, tc, clock.running, now)) : clock;
+  const running = tc.untimed ? null : color;
+  return { ...stopped, running, turnStartedAt: running ? now : null };
+};
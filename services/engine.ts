@@ -0,0 +1,484 @@
+import { Chess, Move } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { EngineLine, EngineResult, EvalScore } from '../types';
+import { Variant, createGame, gameVariant, getChecksGiven, getVariantWinner } from './variants';
+
+// Local alpha-beta engine built on chess.js move generation.
+// Runs inside services/engineWorker.ts so the UI thread never blocks.
+
+export const MATE_SCORE = 100000;
+const INFINITY = 1000000;
+
+export interface EngineLevel {
+  level: number;
+  label: string;
+  depth: number;
+  timeMs: number;
+  // Max random centipawn offset applied to each root move score
+  noise: number;
+  // Chance of picking any non-losing legal move instead of the best one
+  blunderChance: number;
+  // Fixed Elo that anchors player ratings; the bot's own rating never moves
+  rating: number;
+}
+
+export const ENGINE_LEVELS: EngineLevel[] = [
+  { level: 1, label: 'Beginner', depth: 1, timeMs: 300, noise: 250, blunderChance: 0.25, rating: 800 },
+  { level: 2, label: 'Casual', depth: 2, timeMs: 500, noise: 150, blunderChance: 0.12, rating: 1000 },
+  { level: 3, label: 'Club', depth: 2, timeMs: 800, noise: 60, blunderChance: 0.05, rating: 1300 },
+  { level: 4, label: 'Advanced', depth: 3, timeMs: 1200, noise: 25, blunderChance: 0, rating: 1600 },
+  { level: 5, label: 'Expert', depth: 4, timeMs: 2000, noise: 0, blunderChance: 0, rating: 1900 },
+  { level: 6, label: 'Master', depth: 6, timeMs: 3500, noise: 0, blunderChance: 0, rating: 2200 },
+];
+
+export const getEngineLevel = (level: number): EngineLevel =>
+  ENGINE_LEVELS.find((l) => l.level === level) || ENGINE_LEVELS[2];
+
+export interface SearchOptions {
+  depth: number;
+  timeMs?: number;
+  noise?: number;
+  blunderChance?: number;
+}
+
+const PIECE_VALUES: Record<string, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 };
+
+// Piece-square tables from White's point of view, index 0 = a8.
+const PST: Record<string, number[]> = {
+  p: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+     5,  5, 10, 25, 25, 10,  5,  5,
+     0,  0,  0, 20, 20,  0,  0,  0,
+     5, -5,-10,  0,  0,-10, -5,  5,
+     5, 10, 10,-20,-20, 10, 10,  5,
+     0,  0,  0,  0,  0,  0,  0,  0,
+  ],
+  n: [
+   -50,-40,-30,-30,-30,-30,-40,-50,
+   -40,-20,  0,  0,  0,  0,-20,-40,
+   -30,  0, 10, 15, 15, 10,  0,-30,
+   -30,  5, 15, 20, 20, 15,  5,-30,
+   -30,  0, 15, 20, 20, 15,  0,-30,
+   -30,  5, 10, 15, 15, 10,  5,-30,
+   -40,-20,  0,  5,  5,  0,-20,-40,
+   -50,-40,-30,-30,-30,-30,-40,-50,
+  ],
+  b: [
+   -20,-10,-10,-10,-10,-10,-10,-20,
+   -10,  0,  0,  0,  0,  0,  0,-10,
+   -10,  0,  5, 10, 10,  5,  0,-10,
+   -10,  5,  5, 10, 10,  5,  5,-10,
+   -10,  0, 10, 10, 10, 10,  0,-10,
+   -10, 10, 10, 10, 10, 10, 10,-10,
+   -10,  5,  0,  0,  0,  0,  5,-10,
+   -20,-10,-10,-10,-10,-10,-10,-20,
+  ],
+  r: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+     5, 10, 10, 10, 10, 10, 10,  5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+     0,  0,  0,  5,  5,  0,  0,  0,
+  ],
+  q: [
+   -20,-10,-10, -5, -5,-10,-10,-20,
+   -10,  0,  0,  0,  0,  0,  0,-10,
+   -10,  0,  5,  5,  5,  5,  0,-10,
+    -5,  0,  5,  5,  5,  5,  0, -5,
+     0,  0,  5,  5,  5,  5,  0, -5,
+   -10,  5,  5,  5,  5,  5,  0,-10,
+   -10,  0,  5,  0,  0,  0,  0,-10,
+   -20,-10,-10, -5, -5,-10,-10,-20,
+  ],
+  k: [
+   -30,-40,-40,-50,-50,-40,-40,-30,
+   -30,-40,-40,-50,-50,-40,-40,-30,
+   -30,-40,-40,-50,-50,-40,-40,-30,
+   -30,-40,-40,-50,-50,-40,-40,-30,
+   -20,-30,-30,-40,-40,-30,-30,-20,
+   -10,-20,-20,-20,-20,-20,-20,-10,
+    20, 20,  0,  0,  0,  0, 20, 20,
+    20, 30, 10,  0,  0, 10, 30, 20,
+  ],
+};
+
+// King prefers the centre once queens and most minor pieces are gone
+const KING_ENDGAME_PST = [
+  -50,-40,-30,-20,-20,-30,-40,-50,
+  -30,-20,-10,  0,  0,-10,-20,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-30,  0,  0,  0,  0,-30,-30,
+  -50,-30,-30,-30,-30,-30,-30,-50,
+];
+
+// King of the Hill: bonus for a king this many steps (king moves) from the centre
+const HILL_BONUS = [0, 120, 50, 15];
+// Three-check: bonus for having given this many checks
+const CHECK_BONUS = [0, 120, 350];
+
+// chess.js internals (pinned to 1.0.0-beta.8 via the import URL). The public
+// move API computes SAN for every generated move, which makes a search ~40x
+// slower, so the inner loop talks to the 0x88 board directly.
+interface InternalMove {
+  color: 'w' | 'b';
+  from: number;
+  to: number;
+  piece: string;
+  captured?: string;
+  promotion?: string;
+  flags: number;
+}
+
+interface ChessInternals {
+  _board: ({ type: string; color: 'w' | 'b' } | undefined)[];
+  _turn: 'w' | 'b';
+  _kings: { w: number; b: number };
+  _halfMoves: number;
+  _moves(options?: { legal?: boolean }): InternalMove[];
+  _makeMove(move: InternalMove): void;
+  _undoMove(): InternalMove | null;
+  _isKingAttacked(color: 'w' | 'b'): boolean;
+}
+
+const internals = (game: Chess) => game as unknown as ChessInternals;
+
+const squareName = (sq: number) => 'abcdefgh'[sq & 7] + (8 - (sq >> 4));
+
+/**
+ * Static evaluation in centipawns from White's perspective.
+ */
+export const evaluateBoard = (game: Chess): number => {
+  const board = internals(game)._board;
+  let score = 0;
+  let nonPawnMaterial = 0;
+
+  for (let sq = 0; sq < 128; sq++) {
+    const piece = board[sq];
+    if (piece && piece.type !== 'p' && piece.type !== 'k') nonPawnMaterial += PIECE_VALUES[piece.type];
+  }
+  const isEndgame = nonPawnMaterial <= 2600;
+
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    const piece = board[sq];
+    if (!piece) continue;
+    const r = sq >> 4;
+    const c = sq & 7;
+    const index = piece.color === 'w' ? r * 8 + c : (7 - r) * 8 + c;
+    const table = piece.type === 'k' && isEndgame ? KING_ENDGAME_PST : PST[piece.type];
+    const value = PIECE_VALUES[piece.type] + table[index];
+    score += piece.color === 'w' ? value : -value;
+  }
+
+  return score + variantBonus(game);
+};
+
+// Steps from a square to the nearest of d4, e4, d5, e5
+const hillDistance = (sq: number) => {
+  const r = sq >> 4;
+  const c = sq & 7;
+  return Math.max(Math.max(3 - c, c - 4, 0), Math.max(3 - r, r - 4, 0));
+};
+
+// Variant goals the material count doesn't see, from White's perspective
+const variantBonus = (game: Chess): number => {
+  switch (gameVariant(game)) {
+    case 'kingOfTheHill': {
+      const kings = internals(game)._kings;
+      return HILL_BONUS[hillDistance(kings.w)] - HILL_BONUS[hillDistance(kings.b)];
+    }
+    case 'threeCheck': {
+      const checks = getChecksGiven(game)!;
+      return CHECK_BONUS[Math.min(2, checks.w)] - CHECK_BONUS[Math.min(2, checks.b)];
+    }
+    default:
+      return 0;
+  }
+};
+
+const moveKey = (m: { from: string; to: string; promotion?: string }) =>
+  `${m.from}${m.to}${m.promotion || ''}`;
+
+const internalKey = (m: InternalMove) => `${squareName(m.from)}${squareName(m.to)}${m.promotion || ''}`;
+
+// MVV-LVA: prefer capturing big pieces with small ones
+const scoreMove = (m: InternalMove, pvKey?: string): number => {
+  if (pvKey && internalKey(m) === pvKey) return 1000000;
+  let score = 0;
+  if (m.captured) score += 10 * PIECE_VALUES[m.captured] - PIECE_VALUES[m.piece] + 10000;
+  if (m.promotion) score += PIECE_VALUES[m.promotion] + 9000;
+  return score;
+};
+
+const orderMoves = (moves: InternalMove[], pvKey?: string): InternalMove[] =>
+  moves
+    .map((m) => ({ m, s: scoreMove(m, pvKey) }))
+    .sort((a, b) => b.s - a.s)
+    .map((x) => x.m);
+
+class SearchTimeout extends Error {}
+
+class Searcher {
+  private game: Chess;
+  private board: ChessInternals;
+  private deadline: number;
+  private ply = 0;
+  // Previous iteration's principal variation, tried first at each ply
+  private pvTable = new Map<number, string>();
+  nodes = 0;
+
+  constructor(game: Chess, deadline: number) {
+    this.game = game;
+    this.board = internals(game);
+    this.deadline = deadline;
+  }
+
+  private checkTime() {
+    this.nodes++;
+    if ((this.nodes & 63) === 0 && Date.now() > this.deadline) {
+      throw new SearchTimeout();
+    }
+  }
+
+  private make(m: InternalMove) {
+    this.board._makeMove(m);
+    this.ply++;
+  }
+
+  private unmake() {
+    this.board._undoMove();
+    this.ply--;
+  }
+
+  // Takes back everything an aborted search left on the board
+  unwind() {
+    while (this.ply > 0) this.unmake();
+  }
+
+  private sideEval(): number {
+    const score = evaluateBoard(this.game);
+    return this.board._turn === 'w' ? score : -score;
+  }
+
+  quiesce(alpha: number, beta: number): number {
+    this.checkTime();
+    if (getVariantWinner(this.game)) return -(MATE_SCORE - this.ply);
+    const standPat = this.sideEval();
+    if (standPat >= beta) return beta;
+    if (standPat > alpha) alpha = standPat;
+
+    const captures = orderMoves(this.board._moves({ legal: true }).filter((m) => m.captured || m.promotion));
+
+    for (const m of captures) {
+      this.make(m);
+      const score = -this.quiesce(-beta, -alpha);
+      this.unmake();
+      if (score >= beta) return beta;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  }
+
+  negamax(depth: number, alpha: number, beta: number, pvLine: string[]): number {
+    this.checkTime();
+    pvLine.length = 0;
+    const ply = this.ply;
+    // Won by the variant rule on the previous move: scored like a mate
+    if (getVariantWinner(this.game)) return -(MATE_SCORE - ply);
+
+    const moves = this.board._moves({ legal: true });
+    if (moves.length === 0) {
+      return this.board._isKingAttacked(this.board._turn) ? -(MATE_SCORE - ply) : 0;
+    }
+    if (this.board._halfMoves >= 100 || this.game.isInsufficientMaterial()) return 0;
+    if (depth <= 0) return this.quiesce(alpha, beta);
+
+    const ordered = orderMoves(moves, this.pvTable.get(ply));
+    const childLine: string[] = [];
+
+    for (const m of ordered) {
+      this.make(m);
+      const score = -this.negamax(depth - 1, -beta, -alpha, childLine);
+      this.unmake();
+
+      if (score >= beta) return beta;
+      if (score > alpha) {
+        alpha = score;
+        pvLine.length = 0;
+        pvLine.push(internalKey(m), ...childLine);
+      }
+    }
+    return alpha;
+  }
+
+  /**
+   * Scores every root move so the caller can rank them. Only the top
+   * `exactCount` moves get exact scores; the rest are just refuted.
+   * Lines are sorted best first from the side to move's perspective.
+   */
+  searchRoot(depth: number, previous: EngineLine[] | null, exactCount: number): EngineLine[] {
+    const rootMoves = this.board._moves({ legal: true });
+    const rank = (m: InternalMove) => {
+      const index = previous ? previous.findIndex((l) => l.uci === internalKey(m)) : -1;
+      return index === -1 ? Infinity : index;
+    };
+    const ordered = previous ? [...rootMoves].sort((a, b) => rank(a) - rank(b)) : orderMoves(rootMoves);
+
+    const lines: EngineLine[] = [];
+    for (const m of ordered) {
+      const sorted = [...lines].sort((a, b) => b.score - a.score);
+      const alpha = sorted.length >= exactCount ? sorted[exactCount - 1].score : -INFINITY;
+      const uci = internalKey(m);
+      const previousPv = previous?.find((l) => l.uci === uci)?.pv || [];
+      this.pvTable.clear();
+      previousPv.forEach((key, ply) => { if (ply > 0) this.pvTable.set(ply, key); });
+
+      const childLine: string[] = [];
+      this.make(m);
+      const score = -this.negamax(depth - 1, -INFINITY, -alpha, childLine);
+      this.unmake();
+
+      lines.push({
+        uci,
+        san: '',
+        from: squareName(m.from),
+        to: squareName(m.to),
+        promotion: m.promotion,
+        score,
+        pv: [uci, ...childLine],
+        pvSan: [],
+      });
+    }
+    return lines.sort((a, b) => b.score - a.score);
+  }
+}
+
+/**
+ * Converts a UCI line into SAN starting from `fen`. Stops at the first
+ * move that is not legal.
+ */
+export const uciLineToSan = (fen: string, line: string[], variant: Variant = 'standard'): string[] => {
+  const game = createGame(variant, fen);
+  const san: string[] = [];
+  for (const uci of line) {
+    try {
+      san.push(game.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san);
+    } catch {
+      break;
+    }
+  }
+  return san;
+};
+
+const withSan = (fen: string, lines: EngineLine[], variant: Variant): EngineLine[] =>
+  lines.map((l) => {
+    const pvSan = uciLineToSan(fen, l.pv, variant);
+    return { ...l, san: pvSan[0], pvSan };
+  });
+
+/**
+ * Iterative deepening search. Always completes depth 1, then deepens
+ * until the requested depth or the time budget runs out.
+ */
+export const searchPosition = (
+  fen: string,
+  options: SearchOptions & { multiPv?: number },
+  variant: Variant = 'standard'
+): EngineResult => {
+  const game = createGame(variant, fen);
+  const start = Date.now();
+  const deadline = start + (options.timeMs ?? 2000);
+  const multiPv = Math.max(1, options.multiPv ?? 1);
+  const searcher = new Searcher(game, Infinity);
+
+  if (game.moves().length === 0 || getVariantWinner(game)) {
+    return { lines: [], depth: 0, nodes: 0, timeMs: 0 };
+  }
+
+  let lines = searcher.searchRoot(1, null, multiPv);
+  let completedDepth = 1;
+
+  for (let depth = 2; depth <= options.depth; depth++) {
+    const deepSearcher = new Searcher(game, deadline);
+    try {
+      lines = deepSearcher.searchRoot(depth, lines, multiPv);
+      completedDepth = depth;
+      searcher.nodes += deepSearcher.nodes;
+    } catch (e) {
+      if (!(e instanceof SearchTimeout)) throw e;
+      deepSearcher.unwind();
+      searcher.nodes += deepSearcher.nodes;
+      break;
+    }
+    // A forced mate has been found, searching deeper cannot improve on it
+    if (Math.abs(lines[0].score) > MATE_SCORE - 1000) break;
+  }
+
+  return {
+    lines: withSan(fen, lines.slice(0, multiPv), variant),
+    depth: completedDepth,
+    nodes: searcher.nodes,
+    timeMs: Date.now() - start,
+  };
+};
+
+/**
+ * Picks a move for a bot level. Weaker levels perturb root scores and
+ * occasionally play a random move that does not hang a forced mate.
+ */
+export const chooseEngineMove = (fen: string, options: SearchOptions, variant: Variant = 'standard'): EngineResult => {
+  const noise = options.noise ?? 0;
+  const blunderChance = options.blunderChance ?? 0;
+  // Perturbing scores only makes sense when every root move has an exact score
+  const result = searchPosition(fen, { ...options, multiPv: noise > 0 || blunderChance > 0 ? 256 : 1 }, variant);
+  const candidates = result.lines;
+  if (candidates.length <= 1) return result;
+
+  let pick: EngineLine = candidates[0];
+  if (blunderChance > 0 && Math.random() < blunderChance) {
+    const safe = candidates.filter((l) => l.score > -(MATE_SCORE - 1000));
+    const pool = safe.length > 0 ? safe : candidates;
+    pick = pool[Math.floor(Math.random() * pool.length)];
+  } else if (noise > 0) {
+    pick = candidates
+      .map((l) => ({ l, s: l.score + (Math.random() * 2 - 1) * noise }))
+      .sort((a, b) => b.s - a.s)[0].l;
+  }
+
+  return { ...result, lines: [pick] };
+};
+
+/**
+ * Converts a side-to-move score into White's perspective.
+ */
+export const toWhitePerspective = (score: number, turn: 'w' | 'b') => (turn === 'w' ? score : -score);
+
+export const isMateScore = (score: number) => Math.abs(score) > MATE_SCORE - 1000;
+
+/**
+ * Converts a side-to-move search score into a White-perspective EvalScore.
+ */
+export const toEvalScore = (score: number, turn: 'w' | 'b'): EvalScore => {
+  const cp = toWhitePerspective(score, turn);
+  const mate = isMateScore(score) ? Math.sign(cp) * Math.ceil((MATE_SCORE - Math.abs(score)) / 2) : null;
+  return { cp, mate };
+};
+
+// Score of a finished game: the side to move has lost (mated, or by a variant rule), or it's a draw
+export const finalEvalScore = (lost: boolean, turn: 'w' | 'b'): EvalScore =>
+  lost ? { cp: toWhitePerspective(-MATE_SCORE, turn), mate: 0 } : { cp: 0, mate: null };
+
+/**
+ * Short label such as "+1.3", "-0.4", "M3", "-M2" or "#" for a finished mate.
+ */
+export const formatEvalScore = (score: EvalScore): string => {
+  if (score.mate !== null) return score.mate === 0 ? '#' : `${score.mate < 0 ? '-' : ''}M${Math.abs(score.mate)}`;
+  return `${score.cp > 0 ? '+' : ''}${(score.cp / 100).toFixed(1)}`;
+};
@@ -0,0 +1,99 @@
+import { EngineResult, EvalScore } from '../types';
+import { chooseEngineMove, searchPosition, getEngineLevel, SearchOptions, toEvalScore, finalEvalScore } from './engine';
+import { Variant, createGame, sideToMoveLost } from './variants';
+import type { EngineRequest, EngineResponse } from './engineWorker';
+
+type PendingRequest = {
+  resolve: (result: EngineResult) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerUnavailable) return worker;
+  try {
+    worker = new Worker(new URL('./engineWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<EngineResponse>) => {
+      const request = pending.get(e.data.id);
+      if (!request) return;
+      pending.delete(e.data.id);
+      if ('error' in e.data) request.reject(new Error(e.data.error));
+      else request.resolve(e.data.result);
+    };
+    worker.onerror = (e) => {
+      console.error("Engine worker error:", e);
+      pending.forEach((request) => request.reject(new Error("Engine worker crashed")));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  } catch (error) {
+    // No Worker support (e.g. tests or old WebViews): search on the main thread
+    console.warn("Engine worker unavailable, searching on main thread:", error);
+    workerUnavailable = true;
+  }
+  return worker;
+};
+
+const runEngine = (request: Omit<EngineRequest, 'id'>): Promise<EngineResult> => {
+  const w = getWorker();
+  if (!w) {
+    return Promise.resolve(
+      request.type === 'move'
+        ? chooseEngineMove(request.fen, request.options, request.variant)
+        : searchPosition(request.fen, request.options, request.variant)
+    );
+  }
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    w.postMessage({ ...request, id } as EngineRequest);
+  });
+};
+
+/**
+ * Asks the bot for a move at the given strength level (see ENGINE_LEVELS).
+ */
+export const getEngineMove = (fen: string, level: number, variant: Variant = 'standard'): Promise<EngineResult> => {
+  const { depth, timeMs, noise, blunderChance } = getEngineLevel(level);
+  return runEngine({ type: 'move', fen, variant, options: { depth, timeMs, noise, blunderChance } });
+};
+
+/**
+ * Full-strength analysis of a position, returning the top `multiPv` lines.
+ */
+export const analyzeWithEngine = (
+  fen: string,
+  options: SearchOptions & { multiPv?: number } = { depth: 4, timeMs: 2000 },
+  variant: Variant = 'standard'
+): Promise<EngineResult> => runEngine({ type: 'analyze', fen, variant, options });
+
+/**
+ * Quick White-perspective evaluation of a position, for the evaluation bar.
+ */
+export const getEvalScore = async (
+  fen: string,
+  options: SearchOptions = { depth: 4, timeMs: 400 },
+  variant: Variant = 'standard'
+): Promise<EvalScore> => {
+  const game = createGame(variant, fen);
+  if (game.isGameOver()) return finalEvalScore(sideToMoveLost(game), game.turn());
+  const best = (await analyzeWithEngine(fen, options, variant)).lines[0];
+  return best ? toEvalScore(best.score, game.turn()) : { cp: 0, mate: null };
+};
+
+// The bot takes a draw unless it thinks it is this far ahead
+const DRAW_ACCEPT_MARGIN_CP = 50;
+
+/**
+ * Whether the bot playing `color` agrees to a draw in this position.
+ */
+export const engineAcceptsDraw = async (fen: string, color: 'w' | 'b', variant: Variant = 'standard'): Promise<boolean> => {
+  const score = await getEvalScore(fen, { depth: 4, timeMs: 800 }, variant);
+  const ownCp = color === 'w' ? score.cp : -score.cp;
+  return ownCp < DRAW_ACCEPT_MARGIN_CP;
+};
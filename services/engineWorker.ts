@@ -0,0 +1,24 @@
+import { chooseEngineMove, searchPosition, SearchOptions } from './engine';
+import { EngineResult } from '../types';
+import { Variant } from './variants';
+
+export type EngineRequest =
+  | { id: number; type: 'move'; fen: string; variant: Variant; options: SearchOptions }
+  | { id: number; type: 'analyze'; fen: string; variant: Variant; options: SearchOptions & { multiPv?: number } };
+
+export type EngineResponse =
+  | { id: number; result: EngineResult }
+  | { id: number; error: string };
+
+// Web Worker entry point: runs searches off the UI thread
+self.onmessage = (e: MessageEvent<EngineRequest>) => {
+  const request = e.data;
+  try {
+    const result = request.type === 'move'
+      ? chooseEngineMove(request.fen, request.options, request.variant)
+      : searchPosition(request.fen, request.options, request.variant);
+    self.postMessage({ id: request.id, result } as EngineResponse);
+  } catch (error) {
+    self.postMessage({ id: request.id, error: String(error) } as EngineResponse);
+  }
+};
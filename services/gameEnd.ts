@@ -0,0 +1,89 @@
+import { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { GameResult, GameTermination } from '../types';
+import { PgnHeaders, PgnResult } from './pgn';
+import { gameVariant, getVariantWinner } from './variants';
+
+// Rules for how a game ends, and the display strings and PGN tags derived
+// from a GameResult. Whether a flag fall still loses is in material.ts.
+
+/**
+ * The result the position shows by itself (checkmate or a draw by rule), or
+ * null while the game can go on.
+ */
+export const getPositionResult = (game: Chess): GameResult | null => {
+  if (game.isCheckmate()) return { winner: game.turn() === 'w' ? 'b' : 'w', termination: 'checkmate' };
+  const variantWinner = getVariantWinner(game);
+  if (variantWinner) {
+    return { winner: variantWinner, termination: gameVariant(game) === 'threeCheck' ? 'threeChecks' : 'hill' };
+  }
+  if (game.isStalemate()) return { winner: null, termination: 'stalemate' };
+  if (game.isInsufficientMaterial()) return { winner: null, termination: 'insufficient' };
+  if (game.isThreefoldRepetition()) return { winner: null, termination: 'repetition' };
+  // chess.js folds the 50-move rule into isDraw() without its own check
+  if (game.isDraw()) return { winner: null, termination: 'fiftyMove' };
+  return null;
+};
+
+// Endings getPositionResult finds on the board, as opposed to ones declared over it
+const POSITION_TERMINATIONS: GameTermination[] = ['checkmate', 'hill', 'threeChecks', 'stalemate', 'repetition', 'fiftyMove', 'insufficient'];
+
+export const isPositionTermination = (termination: GameTermination) => POSITION_TERMINATIONS.includes(termination);
+
+/**
+ * One-line description for the game-over overlay, using the players' names.
+ */
+export const describeGameResult = (result: GameResult, names: { w: string; b: string }): string => {
+  const winner = result.winner && names[result.winner];
+  const loser = result.winner && names[result.winner === 'w' ? 'b' : 'w'];
+  switch (result.termination) {
+    case 'checkmate': return `Checkmate! ${winner} wins.`;
+    case 'hill': return `${winner}'s king reaches the centre. ${winner} wins.`;
+    case 'threeChecks': return `Third check! ${winner} wins.`;
+    case 'resignation': return `${loser} resigns. ${winner} wins.`;
+    case 'timeout': return winner ? `${winner} wins on time!` : "Time ran out, but the opponent can't checkmate. Draw.";
+    case 'stalemate': return 'Draw by stalemate.';
+    case 'repetition': return 'Draw by threefold repetition.';
+    case 'fiftyMove': return 'Draw by the 50-move rule.';
+    case 'insufficient': return 'Draw by insufficient material.';
+    case 'agreement': return 'Draw by agreement.';
+    case 'unknown': return winner ? `${winner} wins.` : 'Draw.';
+  }
+};
+
+// Short reason shown beside a result, e.g. in the game history
+export const TERMINATION_LABELS: Record<GameTermination, string> = {
+  checkmate: 'Checkmate',
+  hill: 'King of the hill',
+  threeChecks: 'Three checks',
+  resignation: 'Resignation',
+  timeout: 'Time',
+  stalemate: 'Stalemate',
+  repetition: 'Repetition',
+  fiftyMove: '50-move rule',
+  insufficient: 'Insufficient material',
+  agreement: 'Agreement',
+  unknown: '',
+};
+
+export const toPgnResult = (result: GameResult | null): PgnResult =>
+  !result ? '*' : result.winner === 'w' ? '1-0' : result.winner === 'b' ? '0-1' : '1/2-1/2';
+
+/**
+ * Result and Termination tags for a game. Imported games keep their own
+ * Termination when the reason isn't known.
+ */
+export const pgnResultTags = (result: GameResult | null): PgnHeaders => ({
+  Result: toPgnResult(result),
+  ...(result && result.termination !== 'unknown'
+    ? { Termination: result.termination === 'timeout' ? 'time forfeit' : 'normal' }
+    : {}),
+});
+
+/**
+ * Reads a decided result from PGN tags, or null for an unfinished game.
+ */
+export const parsePgnResult = (headers: PgnHeaders): GameResult | null => {
+  const winner = headers.Result === '1-0' ? 'w' : headers.Result === '0-1' ? 'b' : headers.Result === '1/2-1/2' ? null : undefined;
+  if (winner === undefined) return null;
+  return { winner, termination: headers.Termination?.toLowerCase() === 'time forfeit' ? 'timeout' : 'unknown' };
+};
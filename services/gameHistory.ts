@@ -0,0 +1,145 @@
+import { GameResult } from '../types';
+import { TimeControl } from './clock';
+import { getEngineLevel } from './engine';
+import { PlayerProfile, getProfileName } from './profiles';
+import { RatingChange } from './ratings';
+import { Variant } from './variants';
+
+// Finished games, kept in IndexedDB since a long history outgrows localStorage
+
+const DB_NAME = 'grandmaster-chess';
+const DB_VERSION = 1;
+const STORE = 'games';
+
+export interface RecordedPlayer {
+  name: string; // as shown during the game
+  profileId: string | null; // null for guests, the computer and online opponents
+  engineLevel: number | null;
+}
+
+export interface GameRecord {
+  id: string;
+  playedAt: number;
+  pgn: string;
+  result: GameResult;
+  timeControl: TimeControl;
+  white: RecordedPlayer;
+  black: RecordedPlayer;
+  moveCount: number; // plies
+  online: boolean;
+  variant?: Variant; // absent for standard chess
+  // Rating changes for rated games; absent for casual games and older records
+  ratingChanges?: { w: RatingChange | null; b: RatingChange | null };
+}
+
+export type Outcome = 'win' | 'draw' | 'loss';
+
+export interface Tally {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
+export interface PlayerSummary {
+  overall: Tally;
+  asWhite: Tally;
+  asBlack: Tally;
+  opponents: { name: string; tally: Tally }[]; // most played first
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('playedAt', 'playedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after storage was unblocked
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const saveGameRecord = async (record: GameRecord) => {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    // Private mode or storage disabled; the game just isn't kept
+    console.warn("Could not save game to history:", e);
+  }
+};
+
+/**
+ * Every recorded game, newest first.
+ */
+export const loadGameRecords = async (): Promise<GameRecord[]> => {
+  try {
+    const db = await openDb();
+    const records = await new Promise<GameRecord[]>((resolve, reject) => {
+      const request = db.transaction(STORE).objectStore(STORE).index('playedAt').getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return records.reverse();
+  } catch (e) {
+    console.warn("Could not load game history:", e);
+    return [];
+  }
+};
+
+/**
+ * The colour a profile played in a game, or null if it didn't take part.
+ */
+export const profileColor = (record: GameRecord, profileId: string): 'w' | 'b' | null =>
+  record.white.profileId === profileId ? 'w' : record.black.profileId === profileId ? 'b' : null;
+
+export const outcomeFor = (record: GameRecord, color: 'w' | 'b'): Outcome =>
+  record.result.winner === null ? 'draw' : record.result.winner === color ? 'win' : 'loss';
+
+/**
+ * Name for a recorded player: the profile's current name, the computer's
+ * level, or the name used in that game.
+ */
+export const recordedPlayerName = (player: RecordedPlayer, profiles: PlayerProfile[]): string =>
+  getProfileName(profiles, player.profileId)
+  ?? (player.engineLevel !== null ? `Computer (${getEngineLevel(player.engineLevel).label})` : player.name);
+
+const emptyTally = (): Tally => ({ win: 0, draw: 0, loss: 0 });
+
+/**
+ * Win/draw/loss records for a profile overall, by colour and by opponent.
+ */
+export const summarizeGames = (records: GameRecord[], profileId: string, profiles: PlayerProfile[]): PlayerSummary => {
+  const summary: PlayerSummary = { overall: emptyTally(), asWhite: emptyTally(), asBlack: emptyTally(), opponents: [] };
+  const opponents = new Map<string, { name: string; tally: Tally }>();
+
+  for (const record of records) {
+    const color = profileColor(record, profileId);
+    if (!color) continue;
+    const outcome = outcomeFor(record, color);
+    summary.overall[outcome]++;
+    (color === 'w' ? summary.asWhite : summary.asBlack)[outcome]++;
+
+    const opponent = color === 'w' ? record.black : record.white;
+    const name = recordedPlayerName(opponent, profiles);
+    const key = opponent.profileId ?? (opponent.engineLevel !== null ? `engine:${opponent.engineLevel}` : `name:${name}`);
+    const entry = opponents.get(key) ?? { name, tally: emptyTally() };
+    entry.tally[outcome]++;
+    opponents.set(key, entry);
+  }
+
+  const played = (t: Tally) => t.win + t.draw + t.loss;
+  summary.opponents = [...opponents.values()].sort((a, b) => played(b.tally) - played(a.tally));
+  return summary;
+};
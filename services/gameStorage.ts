@@ -0,0 +1,74 @@
+import { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { EngineOpponent, GameResult } from '../types';
+import { ClockState, TimeControl } from './clock';
+import { SavedTreeNode } from './moveTree';
+import { PgnHeaders } from './pgn';
+import { Variant, createGame } from './variants';
+
+const STORAGE_KEY = 'chess_savedGame';
+const STORAGE_VERSION = 7;
+
+export interface SavedGame {
+  version: number;
+  variant: Variant;
+  startFen: string;
+  moves: string[]; // SAN, replayed through chess.js on restore
+  clock: ClockState; // stopped, with the time left when it was saved
+  timeControl: TimeControl;
+  whiteName: string;
+  blackName: string;
+  profileIds: { w: string | null; b: string | null }; // profiles playing each side
+  engineOpponent: EngineOpponent | null;
+  rated: boolean;
+  orientation: 'w' | 'b';
+  result: GameResult | null;
+  headers: PgnHeaders;
+  tree: SavedTreeNode; // variations and annotations, around the moves above
+  savedAt: number;
+}
+
+export const saveGame = (game: Omit<SavedGame, 'version' | 'savedAt'>) => {
+  try {
+    const saved: SavedGame = { ...game, version: STORAGE_VERSION, savedAt: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (e) {
+    // Quota exceeded or storage disabled (private mode); resuming is best effort
+    console.warn("Could not save game:", e);
+  }
+};
+
+/**
+ * Returns the saved game if there is one worth resuming (at least one move).
+ */
+export const loadSavedGame = (): SavedGame | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as SavedGame;
+    if (saved.version !== STORAGE_VERSION || !Array.isArray(saved.moves) || saved.moves.length === 0) return null;
+    return saved;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSavedGame = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Rebuilds the game by replaying every move, so the restored instance has
+ * a full history and undo keeps working. Returns null if any move fails.
+ */
+export const restoreGame = (saved: SavedGame): Chess | null => {
+  try {
+    const game = createGame(saved.variant, saved.startFen);
+    for (const san of saved.moves) {
+      game.move(san);
+    }
+    return game;
+  } catch (e) {
+    console.error("Saved game is corrupt:", e);
+    return null;
+  }
+};
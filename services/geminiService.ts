@@ -1,5 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
-import { AnalysisResult } from '../types';
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisResult, AnalysisLine, EvalScore } from '../types';
+import { MATE_SCORE } from './engine';
+import type { AnalysisProvider } from './analysisProvider';
+import { Variant, createGame, getVariantInfo } from './variants';
+
+export const isGeminiAvailable = () => !!process.env.API_KEY;
 
 const getClient = () => {
   const apiKey = process.env.API_KEY;
@@ -10,70 +15,228 @@ const getClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export const analyzeBoard = async (fen: string, turn: 'w' | 'b'): Promise<AnalysisResult> => {
-  const ai = getClient();
-  if (!ai) {
-    return {
-      evaluation: "Error",
-      explanation: "API Key missing. Cannot analyze.",
-    };
+// Number of candidate lines requested from the model
+const MULTI_PV = 3;
+
+// Structured output: the model must return exactly these fields
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    evaluation: { type: Type.STRING, description: 'Short verdict, e.g. "White is winning", "Equal"' },
+    bestMove: { type: Type.STRING, description: 'Best move for the side to move in SAN, e.g. "Nf3", "O-O", "e8=Q"' },
+    explanation: { type: Type.STRING, description: 'At most 2 sentences of strategic explanation' },
+    scoreCp: { type: Type.INTEGER, description: "Evaluation in centipawns from White's perspective (positive favours White)" },
+    mateIn: { type: Type.INTEGER, description: 'Moves to a forced mate, positive if White mates and negative if Black mates; omit if none' },
+    lines: {
+      type: Type.ARRAY,
+      description: `Up to ${MULTI_PV} candidate moves, best first`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          move: { type: Type.STRING, description: 'Candidate move in SAN' },
+          scoreCp: { type: Type.INTEGER, description: "Evaluation after this move in centipawns from White's perspective" },
+          mateIn: { type: Type.INTEGER, description: 'Moves to a forced mate after this move, signed as above; omit if none' },
+          pv: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Expected continuation in SAN, starting with the move itself' },
+        },
+        required: ['move', 'scoreCp', 'pv'],
+      },
+    },
+  },
+  required: ['evaluation', 'bestMove', 'explanation', 'scoreCp'],
+  propertyOrdering: ['evaluation', 'scoreCp', 'mateIn', 'bestMove', 'explanation', 'lines'],
+};
+
+// First try plus one retry with the legal moves spelled out
+const MAX_ATTEMPTS = 2;
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+// The numeric fields are optional extras; malformed ones are dropped rather than failing the analysis
+const parseScore = (scoreCp: unknown, mateIn: unknown): EvalScore | undefined => {
+  if (isInteger(mateIn) && mateIn !== 0) return { cp: Math.sign(mateIn) * MATE_SCORE, mate: mateIn };
+  if (isInteger(scoreCp)) return { cp: scoreCp, mate: null };
+  return undefined;
+};
+
+// SAN moves of `pv` that are legal in sequence from `fen`, canonicalised; stops at the first illegal one
+const legalPrefix = (fen: string, variant: Variant, pv: string[]): string[] => {
+  const game = createGame(variant, fen);
+  const moves: string[] = [];
+  for (const move of pv) {
+    try {
+      moves.push(game.move(move).san);
+    } catch {
+      break;
+    }
   }
+  return moves;
+};
+
+/**
+ * Candidate lines from the model, keeping only the legal part of each
+ * variation. Lines whose first move is illegal are dropped.
+ */
+const parseLines = (fen: string, variant: Variant, value: unknown): AnalysisLine[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const lines: AnalysisLine[] = [];
+  for (const item of value.slice(0, MULTI_PV)) {
+    const line = item as Record<string, unknown>;
+    if (!line || typeof line.move !== 'string') continue;
+    const score = parseScore(line.scoreCp, line.mateIn);
+    if (!score) continue;
+    const pv = Array.isArray(line.pv) ? line.pv.filter((m): m is string => typeof m === 'string') : [];
+    // Models sometimes leave the candidate itself out of the variation
+    const moves = legalPrefix(fen, variant, pv[0] === line.move ? pv : [line.move, ...pv]);
+    if (moves.length === 0 || lines.some((l) => l.san === moves[0])) continue;
+    lines.push({ san: moves[0], score, pv: moves });
+  }
+  return lines.length ? lines : undefined;
+};
+
+/**
+ * Runtime check of the model output, since the schema is only a hint to the model.
+ */
+const parseAnalysisResult = (fen: string, variant: Variant, text: string | undefined): AnalysisResult | null => {
+  if (!text) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const result = data as Record<string, unknown>;
+  if (!result || typeof result !== 'object') return null;
+  if (typeof result.evaluation !== 'string' || !result.evaluation.trim()) return null;
+  if (typeof result.explanation !== 'string' || !result.explanation.trim()) return null;
+  if (result.bestMove !== undefined && typeof result.bestMove !== 'string') return null;
+  return {
+    evaluation: result.evaluation.trim(),
+    score: parseScore(result.scoreCp, result.mateIn),
+    lines: parseLines(fen, variant, result.lines),
+    bestMove: (result.bestMove as string | undefined)?.trim() || undefined,
+    explanation: result.explanation.trim(),
+  };
+};
+
+// Canonical SAN of `move` if it is legal in `fen`, tolerating sloppy notation like "Ng1f3"
+const toLegalSan = (fen: string, variant: Variant, move: string): string | null => {
+  try {
+    return createGame(variant, fen).move(move).san;
+  } catch {
+    return null;
+  }
+};
 
+// Empty for standard chess, so those prompts stay as they were
+const variantNote = (variant: Variant) => {
+  const { rules } = getVariantInfo(variant);
+  return rules ? `\n    ${rules}\n` : '';
+};
+
+const buildAnalysisPrompt = (fen: string, turn: 'w' | 'b', variant: Variant, retry: { illegalMove: string; legalMoves: string[] } | null) => {
   const turnColor = turn === 'w' ? 'White' : 'Black';
-  
-  const prompt = `
+  const retryNote = retry
+    ? `
+    Your previous answer suggested "${retry.illegalMove}", which is not a legal move in this position.
+    bestMove MUST be exactly one of these legal moves: ${retry.legalMoves.join(', ')}.
+    `
+    : '';
+
+  return `
     You are a Chess Grandmaster engine. Analyze this board position given in FEN notation.
     FEN: ${fen}
-    
+    ${variantNote(variant)}
     The current turn is: ${turnColor}.
     
     Provide a structured JSON response with the following fields:
     1. evaluation: A short string (e.g., "White is winning", "Equal", "Black has advantage").
-    2. bestMove: The single best move in Standard Algebraic Notation (SAN) for the current player (e.g., "Nf3", "O-O").
+       Also give scoreCp, the evaluation in centipawns from White's perspective, and mateIn when there is a forced mate.
+    2. bestMove: The single best move in Standard Algebraic Notation (SAN) for the current player (e.g., "Nf3", "O-O"). Promotions must name the piece (e.g., "e8=Q", "e8=N").
     3. explanation: A concise (max 2 sentences) strategic explanation of why this move is best or the current state of the game.
-    
+    4. lines: Up to ${MULTI_PV} candidate moves, best first, each with its evaluation and expected continuation (pv) in SAN.
+    ${retryNote}
     Do not use Markdown code blocks. Just return the raw JSON.
   `;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
+export const analyzeBoard = async (fen: string, turn: 'w' | 'b', variant: Variant = 'standard'): Promise<AnalysisResult> => {
+  const ai = getClient();
+  if (!ai) {
+    return {
+      evaluation: "Error",
+      explanation: "API Key missing. Cannot analyze.",
+    };
+  }
+
+  const legalMoves: string[] = createGame(variant, fen).moves();
+  let retry: { illegalMove: string; legalMoves: string[] } | null = null;
+  let lastResult: AnalysisResult | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: buildAnalysisPrompt(fen, turn, variant, retry),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: ANALYSIS_SCHEMA,
+        }
+      });
+
+      const result = parseAnalysisResult(fen, variant, response.text);
+      if (!result) {
+        console.warn(`Gemini returned an invalid analysis (attempt ${attempt}):`, response.text);
+        continue;
       }
-    });
+      lastResult = result;
 
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
+      // Nothing to verify once the game is over
+      if (!result.bestMove || legalMoves.length === 0) return result;
 
-    const result = JSON.parse(text);
-    return {
-      evaluation: result.evaluation || "Unknown",
-      bestMove: result.bestMove,
-      explanation: result.explanation || "No explanation provided."
-    };
+      const san = toLegalSan(fen, variant, result.bestMove);
+      if (san) return { ...result, bestMove: san };
 
-  } catch (error) {
-    console.error("Gemini analysis error:", error);
-    return {
-      evaluation: "Analysis Failed",
-      explanation: "Could not analyze position at this time."
-    };
+      console.warn(`Gemini suggested an illegal move (attempt ${attempt}):`, result.bestMove);
+      retry = { illegalMove: result.bestMove, legalMoves };
+    } catch (error) {
+      console.error("Gemini analysis error:", error);
+      break;
+    }
+  }
+
+  if (lastResult && retry) {
+    return { ...lastResult, bestMove: undefined, illegalMove: retry.illegalMove };
   }
+  return {
+    evaluation: "Analysis Failed",
+    explanation: "Could not analyze position at this time."
+  };
 };
 
-export const getCoachTip = async (fen: string, lastMove: string): Promise<string> => {
+export const getCoachTip = async (fen: string, lastMove: string, variant: Variant = 'standard'): Promise<string> => {
   const ai = getClient();
   if (!ai) return "Coach unavailable.";
 
+  const { rules } = getVariantInfo(variant);
   try {
      const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: `The chess game is in state FEN: ${fen}. The last move was ${lastMove}. Give a very short, witty, 1-sentence comment about that move as if you are a spectator.`,
+      contents: `The chess game is in state FEN: ${fen}. ${rules && `${rules} `}The last move was ${lastMove}. Give a very short, witty, 1-sentence comment about that move as if you are a spectator.`,
     });
     return response.text || "";
   } catch (e) {
     return "";
   }
 };
+
+const analyzeFen = (fen: string, variant: Variant) => analyzeBoard(fen, fen.split(' ')[1] === 'b' ? 'b' : 'w', variant);
+
+// One request covers the evaluation, move and explanation
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  evaluatePosition: async (fen, variant) => (await analyzeFen(fen, variant)).evaluation,
+  suggestMove: analyzeFen,
+  explainPosition: analyzeFen,
+  coachComment: getCoachTip,
+};
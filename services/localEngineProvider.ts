@@ -0,0 +1,102 @@
+import { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { AnalysisResult, EngineResult } from '../types';
+import type { AnalysisProvider } from './analysisProvider';
+import { MATE_SCORE, SearchOptions, toWhitePerspective, isMateScore, toEvalScore, finalEvalScore } from './engine';
+import { analyzeWithEngine } from './engineService';
+import { Variant, createGame, gameVariant, getVariantWinner, sideToMoveLost } from './variants';
+
+// Offline analysis backend: searches with the local engine and phrases the
+// result with templates, so Hint and Coach work without an API key.
+
+const ANALYSIS_SEARCH = { depth: 5, timeMs: 1500, multiPv: 3 };
+// Coach comments are cosmetic, keep them cheap
+const COMMENT_SEARCH = { depth: 3, timeMs: 500 };
+
+const PIECE_NAMES: Record<string, string> = { p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king' };
+
+const sideName = (color: 'w' | 'b') => (color === 'w' ? 'White' : 'Black');
+
+// Verdict from White's perspective, in the wording the Gemini coach uses
+const describeScore = (whiteScore: number): string => {
+  const leader = whiteScore > 0 ? 'White' : 'Black';
+  const margin = Math.abs(whiteScore);
+  if (isMateScore(whiteScore)) {
+    return `${leader} mates in ${Math.ceil((MATE_SCORE - margin) / 2)}`;
+  }
+  if (margin < 50) return 'Equal';
+  if (margin < 150) return `${leader} is slightly better`;
+  if (margin < 400) return `${leader} has the advantage`;
+  return `${leader} is winning`;
+};
+
+type Search = { game: Chess; result: EngineResult | null };
+
+const search = async (fen: string, variant: Variant, options: SearchOptions & { multiPv?: number } = ANALYSIS_SEARCH): Promise<Search> => {
+  const game = createGame(variant, fen);
+  if (game.isGameOver()) return { game, result: null };
+  return { game, result: await analyzeWithEngine(fen, options, variant) };
+};
+
+const describeGameOver = (game: Chess): string => {
+  const winner = sideName(game.turn() === 'w' ? 'b' : 'w');
+  if (game.isCheckmate()) return `${winner} has won by checkmate`;
+  if (getVariantWinner(game)) {
+    return gameVariant(game) === 'threeCheck' ? `${winner} has won with the third check` : `${winner} has won by reaching the centre`;
+  }
+  return 'The game is drawn';
+};
+
+const explain = ({ game, result }: Search): AnalysisResult => {
+  const best = result?.lines[0];
+  if (!result || !best) {
+    return {
+      evaluation: game.isCheckmate() ? 'Checkmate' : sideToMoveLost(game) ? `${sideName(game.turn() === 'w' ? 'b' : 'w')} has won` : 'Draw',
+      score: finalEvalScore(sideToMoveLost(game), game.turn()),
+      explanation: `${describeGameOver(game)}.`,
+    };
+  }
+
+  const whiteScore = toWhitePerspective(best.score, game.turn());
+  const mover = sideName(game.turn());
+  const continuation = best.pvSan.slice(1, 5).join(' ');
+  let explanation: string;
+  if (isMateScore(best.score)) {
+    explanation = best.score > 0
+      ? `${best.san} forces mate${continuation ? ` after ${continuation}` : ''}.`
+      : `${mover} is getting mated; ${best.san} offers the most resistance.`;
+  } else {
+    const captured = game.moves({ verbose: true }).find((m: { san: string }) => m.san === best.san)?.captured;
+    const motive = captured ? `takes the ${PIECE_NAMES[captured]}`
+      : best.san.includes('+') ? 'keeps the initiative with check'
+      : 'is the strongest continuation';
+    explanation = `${best.san} ${motive}.${continuation ? ` Expected continuation: ${continuation}.` : ''}`;
+  }
+
+  const lines = result.lines.map((l) => ({ san: l.san, score: toEvalScore(l.score, game.turn()), pv: l.pvSan }));
+  return { evaluation: describeScore(whiteScore), score: lines[0].score, lines, bestMove: best.san, explanation };
+};
+
+export const localEngineProvider: AnalysisProvider = {
+  id: 'engine',
+  label: 'Local Engine',
+
+  evaluatePosition: async (fen, variant) => explain(await search(fen, variant)).evaluation,
+
+  suggestMove: async (fen, variant) => ({ bestMove: (await search(fen, variant)).result?.lines[0]?.san }),
+
+  explainPosition: async (fen, variant) => explain(await search(fen, variant)),
+
+  coachComment: async (fen, lastMove, variant) => {
+    const { game, result } = await search(fen, variant, COMMENT_SEARCH);
+    if (!result) return `${lastMove}! ${describeGameOver(game)}.`;
+    const best = result.lines[0];
+    if (!best) return '';
+    // Score for the player who just moved
+    const score = -best.score;
+    if (isMateScore(score)) return score > 0 ? `${lastMove} sets up a mating net.` : `${lastMove} walks into a forced mate!`;
+    if (score > 300) return `${lastMove} keeps ${sideName(game.turn() === 'w' ? 'b' : 'w')} firmly in control.`;
+    if (score < -300) return `${lastMove}? That looks like trouble.`;
+    if (best.san.includes('x')) return `After ${lastMove}, watch out for ${best.san}.`;
+    return `${lastMove}. ${describeScore(toWhitePerspective(best.score, game.turn()))} for now.`;
+  },
+};
@@ -0,0 +1,37 @@
+import type { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import type { Variant } from './variants';
+
+// Whether a side that runs out of time still loses (FIDE 6.9). Only type
+// imports, so the relay can share it with chess.js from npm.
+
+const squareShade = (square: string) => (square.charCodeAt(0) + Number(square[1])) % 2;
+
+/**
+ * Whether `color` could still checkmate by some series of legal moves. When a
+ * side runs out of time and this is false for the opponent, the game is a
+ * draw instead of a loss. Errs towards true where only a helpmate is possible.
+ */
+export const hasMatingMaterial = (game: Chess, color: 'w' | 'b', variant: Variant = 'standard'): boolean => {
+  // A bare king can still walk to the centre
+  if (variant === 'kingOfTheHill') return true;
+  const pieces = game.board().flat().filter((p) => p && p.type !== 'k');
+  const own = pieces.filter((p) => p.color === color);
+  const theirs = pieces.filter((p) => p.color !== color);
+
+  if (own.length === 0) return false;
+  // Any piece can give the remaining checks
+  if (variant === 'threeCheck') return true;
+  if (own.some((p) => p.type === 'p' || p.type === 'r' || p.type === 'q')) return true;
+
+  const bishops = own.filter((p) => p.type === 'b');
+  // A lone knight needs one of their pieces to hem their own king in
+  if (own.length === 1 && bishops.length === 0) return theirs.length > 0;
+  if (bishops.length < own.length) return true;
+
+  // Bishops on one shade never control the other, so a blocker on it is needed
+  const shade = squareShade(bishops[0].square);
+  if (bishops.every((b) => squareShade(b.square) === shade)) {
+    return theirs.some((p) => p.type !== 'b' || squareShade(p.square) !== shade);
+  }
+  return true;
+};
@@ -0,0 +1,198 @@
+import { Move } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { PlyAnnotation } from './pgn';
+import { Variant, createGame } from './variants';
+
+// The game and the lines explored from it, as a tree of moves. As in PGN, a
+// position's first child continues its line and the others are variations on
+// that move. The main line starts with the game's moves; a takeback leaves the
+// moves it undid after the live position until a different move is played.
+
+// A position: the start, or the one after `move`
+export interface TreeNode {
+  annotation?: PlyAnnotation;
+  children: MoveNode[]; // the first continues the line, the rest are variations
+}
+
+export interface MoveNode extends TreeNode {
+  move: Move;
+}
+
+// Child indices from the start; the main line's ply n is n zeros
+export type TreePath = number[];
+
+// A node added to the tree, with its move to tell it from whatever is at its path later
+export interface AddedNode {
+  path: TreePath;
+  move: Move;
+}
+
+// Stored form of a tree, moves as SAN
+export interface SavedTreeNode {
+  san?: string; // absent at the start position
+  annotation?: PlyAnnotation;
+  children: SavedTreeNode[];
+}
+
+export const emptyTree = (): TreeNode => ({ children: [] });
+
+export const mainlinePath = (ply: number): TreePath => Array(ply).fill(0);
+
+export const samePath = (a: TreePath, b: TreePath) => a.length === b.length && a.every((index, i) => index === b[i]);
+
+/**
+ * Ply where the path leaves the main line, or its length if it never does.
+ */
+export const branchPly = (path: TreePath): number => {
+  const ply = path.findIndex((index) => index !== 0);
+  return ply === -1 ? path.length : ply;
+};
+
+export const nodeAt = (root: TreeNode, path: TreePath): TreeNode | undefined => {
+  let node: TreeNode | undefined = root;
+  for (const index of path) node = node?.children[index];
+  return node;
+};
+
+/**
+ * Moves from the start to the position at `path`.
+ */
+export const pathMoves = (root: TreeNode, path: TreePath): Move[] => {
+  const moves: Move[] = [];
+  let node: TreeNode = root;
+  for (const index of path) {
+    const child = node.children[index];
+    if (!child) break;
+    moves.push(child.move);
+    node = child;
+  }
+  return moves;
+};
+
+/**
+ * Path to the last move of the line through `path`.
+ */
+export const lineEnd = (root: TreeNode, path: TreePath): TreePath => {
+  const end = [...path];
+  let node = nodeAt(root, path);
+  while (node && node.children.length > 0) {
+    end.push(0);
+    node = node.children[0];
+  }
+  return end;
+};
+
+export const mainlineMoves = (root: TreeNode): Move[] => pathMoves(root, lineEnd(root, []));
+
+// Copies the nodes down to `path` with the one there replaced
+const updateAt = (node: TreeNode, path: TreePath, update: (node: TreeNode) => TreeNode): TreeNode => {
+  if (path.length === 0) return update(node);
+  const [index, ...rest] = path;
+  const children = [...node.children];
+  children[index] = updateAt(children[index], rest, update) as MoveNode;
+  return { ...node, children };
+};
+
+export const setAnnotation = (root: TreeNode, path: TreePath, annotation: PlyAnnotation): TreeNode =>
+  nodeAt(root, path) ? updateAt(root, path, (node) => ({ ...node, annotation })) : root;
+
+/**
+ * Plays `move` from the position at `path`, following the child that already
+ * has it or adding it after the others, so it starts a variation unless the
+ * position had no continuation. Returns the tree and the path to the move.
+ */
+export const addMove = (root: TreeNode, path: TreePath, move: Move): { root: TreeNode; path: TreePath } => {
+  const node = nodeAt(root, path);
+  if (!node) return { root, path };
+  const existing = node.children.findIndex((child) => child.move.san === move.san);
+  if (existing !== -1) return { root, path: [...path, existing] };
+  return {
+    root: updateAt(root, path, (n) => ({ ...n, children: [...n.children, { move, children: [] }] })),
+    path: [...path, node.children.length],
+  };
+};
+
+/**
+ * Makes the main line start with the game's moves. Moves already in the tree
+ * go to the front of their siblings; new ones go in front, turning whatever
+ * followed there into a variation. Returns the same tree if nothing changed.
+ */
+export const syncMainline = (root: TreeNode, moves: Move[]): TreeNode => {
+  if (moves.length === 0) return root;
+  const [move, ...rest] = moves;
+  const index = root.children.findIndex((child) => child.move.san === move.san);
+  const child: MoveNode = index === -1 ? { move, children: [] } : root.children[index];
+  const synced = syncMainline(child, rest) as MoveNode;
+  if (index === 0 && synced === child) return root;
+  return { ...root, children: [synced, ...root.children.filter((_, i) => i !== index)] };
+};
+
+/**
+ * Promotes the line through `path` to the main line by moving each variation
+ * on the way to the front of its siblings. Returns the tree and the path to
+ * the same position, now on the main line.
+ */
+export const promoteLine = (root: TreeNode, path: TreePath): { root: TreeNode; path: TreePath } => {
+  if (path.length === 0 || !nodeAt(root, path)) return { root, path };
+  const [index, ...rest] = path;
+  const child = promoteLine(root.children[index], rest).root as MoveNode;
+  return {
+    root: { ...root, children: [child, ...root.children.filter((_, i) => i !== index)] },
+    path: mainlinePath(path.length),
+  };
+};
+
+/**
+ * Deletes the innermost variation `path` is in, with everything after it.
+ * Returns the tree and the path to the position the variation branched
+ * from; on the main line nothing is deleted.
+ */
+export const deleteVariation = (root: TreeNode, path: TreePath): { root: TreeNode; path: TreePath } => {
+  let depth = path.length - 1;
+  while (depth >= 0 && path[depth] === 0) depth--;
+  if (depth < 0) return { root, path };
+  const parent = path.slice(0, depth);
+  return {
+    root: updateAt(root, parent, (node) => ({ ...node, children: node.children.filter((_, i) => i !== path[depth]) })),
+    path: parent,
+  };
+};
+
+/**
+ * Deletes the `added` nodes, newest first, with everything after them. One
+ * its path no longer leads to, or that is among the game's first `livePly`
+ * moves, is kept, so nodes from before or that the game has since played stay.
+ */
+export const deleteAdded = (root: TreeNode, added: AddedNode[], livePly: number): TreeNode =>
+  added.reduceRight((tree, { path, move }) => {
+    const node = nodeAt(tree, path) as MoveNode | undefined;
+    const played = branchPly(path) === path.length && path.length <= livePly;
+    if (played || node?.move !== move) return tree;
+    const index = path[path.length - 1];
+    return updateAt(tree, path.slice(0, -1), (parent) => ({ ...parent, children: parent.children.filter((_, i) => i !== index) }));
+  }, root);
+
+export const serializeTree = (node: TreeNode): SavedTreeNode => ({
+  ...('move' in node ? { san: (node as MoveNode).move.san } : {}),
+  ...(node.annotation ? { annotation: node.annotation } : {}),
+  children: node.children.map(serializeTree),
+});
+
+/**
+ * Rebuilds a stored tree by replaying its moves from the start position.
+ * Returns null if any move fails.
+ */
+export const restoreTree = (saved: SavedTreeNode, variant: Variant, startFen: string): TreeNode | null => {
+  const restore = (node: SavedTreeNode, fen: string): TreeNode => ({
+    ...(node.annotation ? { annotation: node.annotation } : {}),
+    children: node.children.map((child) => {
+      const move: Move = createGame(variant, fen).move(child.san!);
+      return { move, ...restore(child, move.after) };
+    }),
+  });
+  try {
+    return restore(saved, startFen);
+  } catch (e) {
+    console.error("Saved move tree is corrupt:", e);
+    return null;
+  }
+};
@@ -0,0 +1,154 @@
+// Opening book bundled with the app: ECO code, name and the SAN moves that
+// reach the named position. Lines may transpose into each other; lookups go
+// by position, not by move order.
+
+export interface Opening {
+  eco: string;
+  name: string;
+  moves: string; // SAN, space separated
+}
+
+export const OPENINGS: Opening[] = [
+  // Flank and irregular openings
+  { eco: 'A00', name: 'Polish Opening', moves: 'b4' },
+  { eco: 'A00', name: 'Grob Opening', moves: 'g4' },
+  { eco: 'A01', name: 'Nimzo-Larsen Attack', moves: 'b3' },
+  { eco: 'A02', name: "Bird's Opening", moves: 'f4' },
+  { eco: 'A02', name: "Bird's Opening: From's Gambit", moves: 'f4 e5' },
+  { eco: 'A03', name: "Bird's Opening: Dutch Variation", moves: 'f4 d5' },
+  { eco: 'A04', name: 'Zukertort Opening', moves: 'Nf3' },
+  { eco: 'A05', name: 'Zukertort Opening', moves: 'Nf3 Nf6' },
+  { eco: 'A06', name: 'Zukertort Opening', moves: 'Nf3 d5' },
+  { eco: 'A07', name: "King's Indian Attack", moves: 'Nf3 d5 g3' },
+  { eco: 'A09', name: 'Réti Opening', moves: 'Nf3 d5 c4' },
+
+  // English
+  { eco: 'A10', name: 'English Opening', moves: 'c4' },
+  { eco: 'A13', name: 'English Opening: Agincourt Defense', moves: 'c4 e6' },
+  { eco: 'A15', name: 'English Opening: Anglo-Indian Defense', moves: 'c4 Nf6' },
+  { eco: 'A20', name: "English Opening: King's English Variation", moves: 'c4 e5' },
+  { eco: 'A22', name: "English Opening: King's English Variation, Two Knights Variation", moves: 'c4 e5 Nc3 Nf6' },
+  { eco: 'A30', name: 'English Opening: Symmetrical Variation', moves: 'c4 c5' },
+
+  // Queen's pawn, Indian and Dutch defences
+  { eco: 'A40', name: "Queen's Pawn Game", moves: 'd4' },
+  { eco: 'A40', name: 'Englund Gambit', moves: 'd4 e5' },
+  { eco: 'A43', name: 'Benoni Defense: Old Benoni', moves: 'd4 c5' },
+  { eco: 'A45', name: 'Indian Defense', moves: 'd4 Nf6' },
+  { eco: 'A45', name: 'Trompowsky Attack', moves: 'd4 Nf6 Bg5' },
+  { eco: 'A46', name: 'Indian Defense: Knights Variation', moves: 'd4 Nf6 Nf3' },
+  { eco: 'A50', name: 'Indian Defense: Normal Variation', moves: 'd4 Nf6 c4' },
+  { eco: 'A51', name: 'Budapest Defense', moves: 'd4 Nf6 c4 e5' },
+  { eco: 'A56', name: 'Benoni Defense', moves: 'd4 Nf6 c4 c5' },
+  { eco: 'A57', name: 'Benko Gambit', moves: 'd4 Nf6 c4 c5 d5 b5' },
+  { eco: 'A60', name: 'Benoni Defense: Modern Variation', moves: 'd4 Nf6 c4 c5 d5 e6' },
+  { eco: 'A80', name: 'Dutch Defense', moves: 'd4 f5' },
+
+  // Semi-open games
+  { eco: 'B00', name: "King's Pawn Game", moves: 'e4' },
+  { eco: 'B00', name: 'Nimzowitsch Defense', moves: 'e4 Nc6' },
+  { eco: 'B00', name: 'Owen Defense', moves: 'e4 b6' },
+  { eco: 'B01', name: 'Scandinavian Defense', moves: 'e4 d5' },
+  { eco: 'B01', name: 'Scandinavian Defense: Main Line', moves: 'e4 d5 exd5 Qxd5 Nc3 Qa5' },
+  { eco: 'B01', name: 'Scandinavian Defense: Modern Variation', moves: 'e4 d5 exd5 Nf6' },
+  { eco: 'B02', name: 'Alekhine Defense', moves: 'e4 Nf6' },
+  { eco: 'B03', name: 'Alekhine Defense: Four Pawns Attack', moves: 'e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 f4' },
+  { eco: 'B06', name: 'Modern Defense', moves: 'e4 g6' },
+  { eco: 'B07', name: 'Pirc Defense', moves: 'e4 d6 d4 Nf6 Nc3 g6' },
+  { eco: 'B10', name: 'Caro-Kann Defense', moves: 'e4 c6' },
+  { eco: 'B12', name: 'Caro-Kann Defense: Advance Variation', moves: 'e4 c6 d4 d5 e5' },
+  { eco: 'B13', name: 'Caro-Kann Defense: Exchange Variation', moves: 'e4 c6 d4 d5 exd5 cxd5' },
+  { eco: 'B15', name: 'Caro-Kann Defense', moves: 'e4 c6 d4 d5 Nc3' },
+  { eco: 'B18', name: 'Caro-Kann Defense: Classical Variation', moves: 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5' },
+
+  // Sicilian
+  { eco: 'B20', name: 'Sicilian Defense', moves: 'e4 c5' },
+  { eco: 'B21', name: 'Sicilian Defense: Smith-Morra Gambit', moves: 'e4 c5 d4 cxd4 c3' },
+  { eco: 'B22', name: 'Sicilian Defense: Alapin Variation', moves: 'e4 c5 c3' },
+  { eco: 'B23', name: 'Sicilian Defense: Closed', moves: 'e4 c5 Nc3' },
+  { eco: 'B27', name: 'Sicilian Defense', moves: 'e4 c5 Nf3' },
+  { eco: 'B30', name: 'Sicilian Defense: Old Sicilian', moves: 'e4 c5 Nf3 Nc6' },
+  { eco: 'B33', name: 'Sicilian Defense: Sveshnikov Variation', moves: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5' },
+  { eco: 'B34', name: 'Sicilian Defense: Accelerated Dragon', moves: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6' },
+  { eco: 'B40', name: 'Sicilian Defense: French Variation', moves: 'e4 c5 Nf3 e6' },
+  { eco: 'B41', name: 'Sicilian Defense: Kan Variation', moves: 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6' },
+  { eco: 'B44', name: 'Sicilian Defense: Taimanov Variation', moves: 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6' },
+  { eco: 'B50', name: 'Sicilian Defense: Modern Variations', moves: 'e4 c5 Nf3 d6' },
+  { eco: 'B51', name: 'Sicilian Defense: Moscow Variation', moves: 'e4 c5 Nf3 d6 Bb5+' },
+  { eco: 'B54', name: 'Sicilian Defense: Open', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4' },
+  { eco: 'B56', name: 'Sicilian Defense: Classical Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6' },
+  { eco: 'B70', name: 'Sicilian Defense: Dragon Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6' },
+  { eco: 'B80', name: 'Sicilian Defense: Scheveningen Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6' },
+  { eco: 'B90', name: 'Sicilian Defense: Najdorf Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6' },
+
+  // French
+  { eco: 'C00', name: 'French Defense', moves: 'e4 e6' },
+  { eco: 'C01', name: 'French Defense: Exchange Variation', moves: 'e4 e6 d4 d5 exd5' },
+  { eco: 'C02', name: 'French Defense: Advance Variation', moves: 'e4 e6 d4 d5 e5' },
+  { eco: 'C03', name: 'French Defense: Tarrasch Variation', moves: 'e4 e6 d4 d5 Nd2' },
+  { eco: 'C10', name: 'French Defense: Paulsen Variation', moves: 'e4 e6 d4 d5 Nc3' },
+  { eco: 'C11', name: 'French Defense: Classical Variation', moves: 'e4 e6 d4 d5 Nc3 Nf6' },
+  { eco: 'C15', name: 'French Defense: Winawer Variation', moves: 'e4 e6 d4 d5 Nc3 Bb4' },
+
+  // Open games
+  { eco: 'C20', name: "King's Pawn Game", moves: 'e4 e5' },
+  { eco: 'C21', name: 'Center Game', moves: 'e4 e5 d4 exd4' },
+  { eco: 'C21', name: 'Danish Gambit', moves: 'e4 e5 d4 exd4 c3' },
+  { eco: 'C23', name: "Bishop's Opening", moves: 'e4 e5 Bc4' },
+  { eco: 'C25', name: 'Vienna Game', moves: 'e4 e5 Nc3' },
+  { eco: 'C30', name: "King's Gambit", moves: 'e4 e5 f4' },
+  { eco: 'C31', name: "King's Gambit Declined: Falkbeer Countergambit", moves: 'e4 e5 f4 d5' },
+  { eco: 'C33', name: "King's Gambit Accepted", moves: 'e4 e5 f4 exf4' },
+  { eco: 'C40', name: "King's Knight Opening", moves: 'e4 e5 Nf3' },
+  { eco: 'C40', name: 'Latvian Gambit', moves: 'e4 e5 Nf3 f5' },
+  { eco: 'C41', name: 'Philidor Defense', moves: 'e4 e5 Nf3 d6' },
+  { eco: 'C42', name: "Petrov's Defense", moves: 'e4 e5 Nf3 Nf6' },
+  { eco: 'C44', name: "King's Knight Opening: Normal Variation", moves: 'e4 e5 Nf3 Nc6' },
+  { eco: 'C44', name: 'Ponziani Opening', moves: 'e4 e5 Nf3 Nc6 c3' },
+  { eco: 'C44', name: 'Scotch Game', moves: 'e4 e5 Nf3 Nc6 d4' },
+  { eco: 'C45', name: 'Scotch Game', moves: 'e4 e5 Nf3 Nc6 d4 exd4 Nxd4' },
+  { eco: 'C46', name: 'Three Knights Opening', moves: 'e4 e5 Nf3 Nc6 Nc3' },
+  { eco: 'C47', name: 'Four Knights Game', moves: 'e4 e5 Nf3 Nc6 Nc3 Nf6' },
+  { eco: 'C50', name: 'Italian Game', moves: 'e4 e5 Nf3 Nc6 Bc4' },
+  { eco: 'C50', name: 'Italian Game: Giuoco Piano', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5' },
+  { eco: 'C51', name: 'Italian Game: Evans Gambit', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4' },
+  { eco: 'C53', name: 'Italian Game: Classical Variation', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3' },
+  { eco: 'C55', name: 'Italian Game: Two Knights Defense', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6' },
+  { eco: 'C57', name: 'Italian Game: Two Knights Defense, Knight Attack', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5' },
+  { eco: 'C57', name: 'Italian Game: Two Knights Defense, Fried Liver Attack', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7' },
+  { eco: 'C60', name: 'Ruy Lopez', moves: 'e4 e5 Nf3 Nc6 Bb5' },
+  { eco: 'C62', name: 'Ruy Lopez: Steinitz Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 d6' },
+  { eco: 'C65', name: 'Ruy Lopez: Berlin Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 Nf6' },
+  { eco: 'C68', name: 'Ruy Lopez: Exchange Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6' },
+  { eco: 'C70', name: 'Ruy Lopez: Morphy Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 a6' },
+  { eco: 'C80', name: 'Ruy Lopez: Open', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4' },
+  { eco: 'C84', name: 'Ruy Lopez: Closed', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7' },
+  { eco: 'C89', name: 'Ruy Lopez: Marshall Attack', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5' },
+
+  // Closed games
+  { eco: 'D00', name: "Queen's Pawn Game", moves: 'd4 d5' },
+  { eco: 'D00', name: "Queen's Pawn Game: Accelerated London System", moves: 'd4 d5 Bf4' },
+  { eco: 'D00', name: 'Blackmar-Diemer Gambit', moves: 'd4 d5 e4' },
+  { eco: 'D01', name: 'Richter-Veresov Attack', moves: 'd4 d5 Nc3 Nf6 Bg5' },
+  { eco: 'D02', name: 'London System', moves: 'd4 d5 Nf3 Nf6 Bf4' },
+  { eco: 'D06', name: "Queen's Gambit", moves: 'd4 d5 c4' },
+  { eco: 'D07', name: "Queen's Gambit Declined: Chigorin Defense", moves: 'd4 d5 c4 Nc6' },
+  { eco: 'D08', name: "Queen's Gambit Declined: Albin Countergambit", moves: 'd4 d5 c4 e5' },
+  { eco: 'D10', name: 'Slav Defense', moves: 'd4 d5 c4 c6' },
+  { eco: 'D20', name: "Queen's Gambit Accepted", moves: 'd4 d5 c4 dxc4' },
+  { eco: 'D30', name: "Queen's Gambit Declined", moves: 'd4 d5 c4 e6' },
+  { eco: 'D35', name: "Queen's Gambit Declined: Exchange Variation", moves: 'd4 d5 c4 e6 Nc3 Nf6 cxd5' },
+  { eco: 'D43', name: 'Semi-Slav Defense', moves: 'd4 d5 c4 c6 Nf3 Nf6 Nc3 e6' },
+  { eco: 'D80', name: 'Grünfeld Defense', moves: 'd4 Nf6 c4 g6 Nc3 d5' },
+  { eco: 'D85', name: 'Grünfeld Defense: Exchange Variation', moves: 'd4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5' },
+
+  // Indian systems
+  { eco: 'E00', name: 'Catalan Opening', moves: 'd4 Nf6 c4 e6 g3' },
+  { eco: 'E11', name: 'Bogo-Indian Defense', moves: 'd4 Nf6 c4 e6 Nf3 Bb4+' },
+  { eco: 'E12', name: "Queen's Indian Defense", moves: 'd4 Nf6 c4 e6 Nf3 b6' },
+  { eco: 'E20', name: 'Nimzo-Indian Defense', moves: 'd4 Nf6 c4 e6 Nc3 Bb4' },
+  { eco: 'E60', name: "King's Indian Defense", moves: 'd4 Nf6 c4 g6' },
+  { eco: 'E61', name: "King's Indian Defense", moves: 'd4 Nf6 c4 g6 Nc3 Bg7' },
+  { eco: 'E80', name: "King's Indian Defense: Sämisch Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3' },
+  { eco: 'E90', name: "King's Indian Defense: Normal Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3' },
+];
@@ -0,0 +1,82 @@
+import { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { Opening, OPENINGS } from './openingBook';
+
+interface BookPosition {
+  opening: Opening | null; // named exactly at this position
+  via: Opening; // shortest book line passing through it, for positions without a name
+}
+
+export interface BookMove {
+  san: string;
+  from: string;
+  to: string;
+  promotion?: string;
+  opening: Opening;
+  named: boolean; // false when `opening` is only a line this move leads towards
+}
+
+/**
+ * Position part of a FEN, without the move counters, so transpositions
+ * match. chess.js only records an en passant square when a capture is
+ * actually possible, which keeps the key stable across move orders.
+ */
+export const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+let bookIndex: Map<string, BookPosition> | null = null;
+
+// Built on first use by replaying every line of the book
+const getBookIndex = () => {
+  if (bookIndex) return bookIndex;
+  const index = new Map<string, BookPosition>();
+  const byLength = [...OPENINGS].sort((a, b) => a.moves.split(' ').length - b.moves.split(' ').length);
+  for (const opening of byLength) {
+    const game = new Chess();
+    const moves = opening.moves.split(' ');
+    moves.forEach((san, i) => {
+      game.move(san);
+      const key = positionKey(game.fen());
+      const entry = index.get(key) ?? { opening: null, via: opening };
+      if (i === moves.length - 1 && !entry.opening) entry.opening = opening;
+      index.set(key, entry);
+    });
+  }
+  bookIndex = index;
+  return index;
+};
+
+/**
+ * The most specific opening named along a game, given the FEN of every
+ * position in it. Leaving the book keeps the last name reached.
+ */
+export const findOpening = (fens: string[]): Opening | null => {
+  const index = getBookIndex();
+  for (let i = fens.length - 1; i >= 0; i--) {
+    const opening = index.get(positionKey(fens[i]))?.opening;
+    if (opening) return opening;
+  }
+  return null;
+};
+
+/**
+ * Legal moves from `fen` that stay in the book, named openings first.
+ */
+export const getBookMoves = (fen: string): BookMove[] => {
+  const index = getBookIndex();
+  const game = new Chess(fen);
+  const moves: BookMove[] = [];
+  for (const move of game.moves({ verbose: true })) {
+    game.move(move);
+    const entry = index.get(positionKey(game.fen()));
+    game.undo();
+    if (!entry) continue;
+    moves.push({
+      san: move.san,
+      from: move.from,
+      to: move.to,
+      promotion: move.promotion,
+      opening: entry.opening ?? entry.via,
+      named: !!entry.opening,
+    });
+  }
+  return moves.sort((a, b) => Number(b.named) - Number(a.named) || a.opening.eco.localeCompare(b.opening.eco));
+};
@@ -0,0 +1,329 @@
+import { Chess, Move } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { MoveNode, TreeNode, syncMainline } from './moveTree';
+import { BoardShape, formatShapeCommands, parseShapeCommands } from './shapes';
+import { Variant, createGame, gameVariant, parsePgnVariant, variantPgnTags } from './variants';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnHeaders {
+  [tag: string]: string;
+}
+
+// Annotations on a position, the one after a move or the start
+export interface PlyAnnotation {
+  comment?: string;
+  nags?: number[]; // Numeric Annotation Glyphs, e.g. 1 for "!"
+  shapes?: BoardShape[];
+}
+
+export type PgnImportResult =
+  | { ok: true; headers: PgnHeaders; moves: string[]; game: Chess; tree: TreeNode }
+  | { ok: false; error: string; ply?: number };
+
+// Seven Tag Roster, always written first and in this order
+const STR_TAGS = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const RESULTS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Move assessments and their NAG codes ($1-$6)
+export const MOVE_ASSESSMENTS: { nag: number; symbol: string; label: string }[] = [
+  { nag: 1, symbol: '!', label: 'Good move' },
+  { nag: 2, symbol: '?', label: 'Mistake' },
+  { nag: 3, symbol: '!!', label: 'Brilliant move' },
+  { nag: 4, symbol: '??', label: 'Blunder' },
+  { nag: 5, symbol: '!?', label: 'Interesting move' },
+  { nag: 6, symbol: '?!', label: 'Dubious move' },
+];
+
+export const isMoveAssessment = (nag: number) => nag >= 1 && nag <= 6;
+
+/**
+ * Symbol for a move's assessment NAG, or '' when it has none.
+ */
+export const assessmentSymbol = (nags: number[] | undefined): string =>
+  MOVE_ASSESSMENTS.find((a) => nags?.includes(a.nag))?.symbol ?? '';
+
+/**
+ * Formats a date as a PGN Date tag value (YYYY.MM.DD).
+ */
+export const formatPgnDate = (date: Date): string =>
+  `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`;
+
+const escapeTag = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Wraps movetext tokens into lines of at most `maxWidth` characters
+const wrapTokens = (tokens: string[], maxWidth = 80): string => {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > maxWidth) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+};
+
+// Comment token for a ply's annotations, or null when there is nothing to write.
+// A closing brace would end the comment early, so it can't appear inside.
+const annotationComment = (annotation: PlyAnnotation | undefined): string | null => {
+  const text = [annotation?.comment?.replace(/}/g, ')').trim(), formatShapeCommands(annotation?.shapes ?? [])]
+    .filter(Boolean)
+    .join(' ');
+  return text ? `{${text}}` : null;
+};
+
+// A move with its number where it needs one, NAGs and comment
+const moveTokens = (node: MoveNode, numberBlack: boolean): string[] => {
+  const { move, annotation } = node;
+  const moveNumber = Number(move.before.split(' ')[5]);
+  const tokens = move.color === 'w' ? [`${moveNumber}.`] : numberBlack ? [`${moveNumber}...`] : [];
+  tokens.push(move.san, ...(annotation?.nags ?? []).map((nag) => `$${nag}`));
+  const comment = annotationComment(annotation);
+  if (comment) tokens.push(comment);
+  return tokens;
+};
+
+// Movetext of the line after `node`, each move followed by its variations in
+// parentheses. Black's move needs its number again after a comment or a variation.
+const lineTokens = (node: TreeNode, numberBlack: boolean, maxPlies = Infinity): string[] => {
+  const tokens: string[] = [];
+  for (let ply = 0; ply < maxPlies && node.children.length > 0; ply++) {
+    const [next, ...variations] = node.children;
+    tokens.push(...moveTokens(next, numberBlack));
+    numberBlack = !!annotationComment(next.annotation);
+    for (const variation of variations) {
+      const inner = [...moveTokens(variation, true), ...lineTokens(variation, !!annotationComment(variation.annotation))];
+      inner[0] = `(${inner[0]}`;
+      inner[inner.length - 1] += ')';
+      tokens.push(...inner);
+      numberBlack = true;
+    }
+    node = next;
+  }
+  return tokens;
+};
+
+/**
+ * Serialises a game to PGN. Missing Seven Tag Roster entries are filled
+ * with the standard "unknown" values; extra tags follow in insertion order.
+ * The move tree adds annotations, as NAGs and comments, and variations; its
+ * main line is cut where the game ends.
+ */
+export const exportPgn = (game: Chess, headers: PgnHeaders, tree: TreeNode = { children: [] }): string => {
+  const tags: PgnHeaders = {
+    Event: '?',
+    Site: '?',
+    Date: '????.??.??',
+    Round: '?',
+    White: '?',
+    Black: '?',
+    Result: '*',
+    ...headers,
+    ...variantPgnTags(gameVariant(game)),
+  };
+
+  // A game that doesn't start from the variant's initial position needs SetUp/FEN
+  const history = game.history({ verbose: true });
+  const startFen = history.length > 0 ? history[0].before : game.fen();
+  if (startFen !== createGame(gameVariant(game)).fen()) {
+    tags.SetUp = '1';
+    tags.FEN = startFen;
+  }
+
+  const tagOrder = [...STR_TAGS, ...Object.keys(tags).filter((t) => !STR_TAGS.includes(t))];
+  const tagSection = tagOrder.map((t) => `[${t} "${escapeTag(tags[t])}"]`).join('\n');
+
+  const root = syncMainline(tree, history);
+  const startComment = annotationComment(root.annotation);
+  const tokens = [...(startComment ? [startComment] : []), ...lineTokens(root, true, history.length), tags.Result];
+
+  return `${tagSection}\n\n${wrapTokens(tokens)}\n`;
+};
+
+/**
+ * Human-readable label for a ply, e.g. ply 7 -> "4. Nf3", ply 8 -> "4... Nc6".
+ */
+export const plyLabel = (ply: number, san: string, startMoveNumber = 1, startTurn: 'w' | 'b' = 'w'): string => {
+  const offset = startTurn === 'b' ? 1 : 0;
+  const index = ply - 1 + offset;
+  const moveNumber = startMoveNumber + Math.floor(index / 2);
+  return index % 2 === 0 ? `${moveNumber}. ${san}` : `${moveNumber}... ${san}`;
+};
+
+const parseHeaders = (text: string): { headers: PgnHeaders; movetext: string } => {
+  const headers: PgnHeaders = {};
+  const tagPattern = /^\s*\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/;
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) {
+      if (Object.keys(headers).length > 0) { i++; break; }
+      continue;
+    }
+    const match = line.match(tagPattern);
+    if (!match) break;
+    headers[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+  }
+  return { headers, movetext: lines.slice(i).join('\n') };
+};
+
+// Move suffixes some PGN writers use instead of NAGs
+const SUFFIX_NAGS: Record<string, number> = Object.fromEntries(MOVE_ASSESSMENTS.map((a) => [a.symbol, a.nag]));
+
+type MovetextResult =
+  | { ok: true; tree: TreeNode; result?: PgnResult }
+  | { ok: false; error: string; ply?: number };
+
+// Where the parser is: the last move's position and the one before it, from
+// which a variation on that move starts
+interface LineCursor {
+  node: TreeNode;
+  fen: string;
+  ply: number;
+  previous: { node: TreeNode; fen: string } | null;
+}
+
+const toAnnotation = (comments: string[], nags: number[]): PlyAnnotation | undefined => {
+  const parsed = comments.map(parseShapeCommands);
+  const annotation: PlyAnnotation = {};
+  const comment = parsed.map((p) => p.text).filter(Boolean).join(' ');
+  const shapes = parsed.flatMap((p) => p.shapes);
+  if (comment) annotation.comment = comment;
+  if (nags.length > 0) annotation.nags = [...new Set(nags)];
+  if (shapes.length > 0) annotation.shapes = shapes;
+  return Object.keys(annotation).length > 0 ? annotation : undefined;
+};
+
+// Reads movetext into a move tree, checking every move, main line and
+// variations alike, against the position it is played from. Move numbers and
+// the game termination marker are dropped; comments and NAGs annotate the
+// move before them, or the start position.
+const parseMovetext = (movetext: string, variant: Variant, startFen: string): MovetextResult => {
+  const root: TreeNode = { children: [] };
+  const comments = new Map<TreeNode, string[]>();
+  const nags = new Map<TreeNode, number[]>();
+  const add = <T>(map: Map<TreeNode, T[]>, node: TreeNode, value: T) => map.set(node, [...(map.get(node) ?? []), value]);
+  const startGame = createGame(variant, startFen);
+  const startMoveNumber = startGame.moveNumber();
+  const startTurn = startGame.turn();
+
+  let cursor: LineCursor = { node: root, fen: startFen, ply: 0, previous: null };
+  const stack: LineCursor[] = [];
+  // Depth inside a variation that has no move to start from, which is skipped
+  let skipped = 0;
+  let result: PgnResult | undefined;
+  let i = 0;
+
+  while (i < movetext.length) {
+    const ch = movetext[i];
+    if (ch === '{') {
+      const end = movetext.indexOf('}', i);
+      if (!skipped) add(comments, cursor.node, movetext.slice(i + 1, end === -1 ? movetext.length : end));
+      i = end === -1 ? movetext.length : end + 1;
+    } else if (ch === ';') {
+      const end = movetext.indexOf('\n', i);
+      i = end === -1 ? movetext.length : end + 1;
+    } else if (ch === '(') {
+      if (skipped || !cursor.previous) {
+        skipped++;
+      } else {
+        stack.push(cursor);
+        cursor = { ...cursor.previous, ply: cursor.ply - 1, previous: null };
+      }
+      i++;
+    } else if (ch === ')') {
+      if (skipped) skipped--;
+      else if (stack.length > 0) cursor = stack.pop()!;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else {
+      const match = movetext.slice(i).match(/^[^\s{}();]+/);
+      const token = match ? match[0] : ch;
+      i += token.length;
+      if (skipped) continue;
+
+      if ((RESULTS as string[]).includes(token)) {
+        if (stack.length > 0) continue;
+        result = token as PgnResult;
+        break;
+      }
+      if (/^\$\d+$/.test(token)) {
+        if (cursor.previous) add(nags, cursor.node, Number(token.slice(1)));
+        continue;
+      }
+      // Strip a leading move number ("12." / "12...") that may be glued to the move
+      const text = token.replace(/^\d*\.+/, '');
+      const suffix = text.match(/[!?]+$/)?.[0];
+      const san = (suffix ? text.slice(0, -suffix.length) : text).replace(/0-0-0/g, 'O-O-O').replace(/0-0/g, 'O-O');
+      if (!san) continue;
+
+      const ply = cursor.ply + 1;
+      let move: Move | null;
+      try {
+        move = createGame(variant, cursor.fen).move(san);
+      } catch {
+        move = null;
+      }
+      if (!move) {
+        const label = plyLabel(ply, san, startMoveNumber, startTurn);
+        return stack.length === 0
+          ? { ok: false, ply, error: `Illegal move at ply ${ply}: ${label}` }
+          : { ok: false, error: `Illegal move in a variation at ply ${ply}: ${label}` };
+      }
+      let child = cursor.node.children.find((c) => c.move.san === move!.san);
+      if (!child) {
+        child = { move, children: [] };
+        cursor.node.children.push(child);
+      }
+      cursor = { node: child, fen: move.after, ply, previous: { node: cursor.node, fen: cursor.fen } };
+      if (suffix && SUFFIX_NAGS[suffix]) add(nags, child, SUFFIX_NAGS[suffix]);
+    }
+  }
+
+  const annotate = (node: TreeNode) => {
+    const annotation = toAnnotation(comments.get(node) ?? [], nags.get(node) ?? []);
+    if (annotation) node.annotation = annotation;
+    node.children.forEach(annotate);
+  };
+  annotate(root);
+  return { ok: true, tree: root, result };
+};
+
+/**
+ * Parses the first game in a PGN and replays its main line through chess.js
+ * so the returned game has a full, undoable history. The Variant tag picks
+ * the rules; variations, comments and NAGs come back in the move tree.
+ * Reports the first illegal move, with its ply number on the main line.
+ */
+export const importPgn = (text: string): PgnImportResult => {
+  if (!text.trim()) return { ok: false, error: 'PGN is empty.' };
+
+  const { headers, movetext } = parseHeaders(text);
+
+  const variant = parsePgnVariant(headers.Variant);
+  if (!variant) return { ok: false, error: `Unsupported variant: ${headers.Variant}` };
+
+  let game: Chess;
+  try {
+    game = createGame(variant, headers.FEN || undefined);
+  } catch (e) {
+    return { ok: false, error: `Invalid FEN tag: ${headers.FEN}` };
+  }
+
+  const parsed = parseMovetext(movetext, variant, game.fen());
+  if (parsed.ok === false) return parsed;
+
+  const moves: string[] = [];
+  for (let node = parsed.tree; node.children.length > 0; node = node.children[0]) {
+    moves.push(game.move(node.children[0].move.san).san);
+  }
+
+  if (parsed.result && !headers.Result) headers.Result = parsed.result;
+  return { ok: true, headers, moves, game, tree: parsed.tree };
+};
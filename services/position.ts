@@ -0,0 +1,214 @@
+import { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { Piece } from '../types';
+
+// Editable position model for the setup editor, with FEN conversion and
+// the legality checks chess.js doesn't make on its own.
+
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+export type CastlingRight = 'K' | 'Q' | 'k' | 'q';
+
+export interface EditorPosition {
+  pieces: Record<string, Piece>; // keyed by square, e.g. "e1"
+  turn: 'w' | 'b';
+  castling: Record<CastlingRight, boolean>;
+  enPassant: string | null;
+  halfMoves: number;
+  fullMoves: number;
+}
+
+export type ParseFenResult = { ok: true; position: EditorPosition } | { ok: false; error: string };
+
+const FILES = 'abcdefgh';
+const PIECE_CHARS = 'pnbrqk';
+const CASTLING_RIGHTS: CastlingRight[] = ['K', 'Q', 'k', 'q'];
+
+// King and rook squares each castling right depends on
+const CASTLING_SQUARES: Record<CastlingRight, { king: string; rook: string; label: string }> = {
+  K: { king: 'e1', rook: 'h1', label: 'White kingside' },
+  Q: { king: 'e1', rook: 'a1', label: 'White queenside' },
+  k: { king: 'e8', rook: 'h8', label: 'Black kingside' },
+  q: { king: 'e8', rook: 'a8', label: 'Black queenside' },
+};
+
+export const emptyPosition = (): EditorPosition => ({
+  pieces: {},
+  turn: 'w',
+  castling: { K: false, Q: false, k: false, q: false },
+  enPassant: null,
+  halfMoves: 0,
+  fullMoves: 1,
+});
+
+/**
+ * Parses the structure of a FEN. Legality is checked separately by
+ * `validatePosition` so the editor can load and fix broken positions.
+ */
+export const parseFen = (fen: string): ParseFenResult => {
+  const fields = fen.trim().split(/\s+/);
+  if (!fields[0]) return { ok: false, error: 'FEN is empty' };
+
+  const [placement, turn = 'w', castling = '-', enPassant = '-', halfMoves = '0', fullMoves = '1'] = fields;
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) return { ok: false, error: `Board needs 8 ranks separated by "/", found ${ranks.length}` };
+
+  const position = emptyPosition();
+  for (let r = 0; r < 8; r++) {
+    const rank = 8 - r;
+    let file = 0;
+    for (const char of ranks[r]) {
+      if (/[1-8]/.test(char)) {
+        file += parseInt(char, 10);
+      } else if (PIECE_CHARS.includes(char.toLowerCase())) {
+        if (file < 8) {
+          position.pieces[`${FILES[file]}${rank}`] = {
+            type: char.toLowerCase() as Piece['type'],
+            color: char === char.toUpperCase() ? 'w' : 'b',
+          };
+        }
+        file++;
+      } else {
+        return { ok: false, error: `Unknown piece "${char}" on rank ${rank}` };
+      }
+    }
+    if (file !== 8) return { ok: false, error: `Rank ${rank} has ${file} squares instead of 8` };
+  }
+
+  if (turn !== 'w' && turn !== 'b') return { ok: false, error: `Side to move must be "w" or "b", not "${turn}"` };
+  position.turn = turn;
+
+  if (castling !== '-') {
+    for (const char of castling) {
+      if (!CASTLING_RIGHTS.includes(char as CastlingRight)) {
+        return { ok: false, error: `Invalid castling rights "${castling}"` };
+      }
+      position.castling[char as CastlingRight] = true;
+    }
+  }
+
+  if (enPassant !== '-') {
+    if (!/^[a-h][36]$/.test(enPassant)) return { ok: false, error: `Invalid en passant square "${enPassant}"` };
+    position.enPassant = enPassant;
+  }
+
+  if (!/^\d+$/.test(halfMoves)) return { ok: false, error: `Halfmove clock must be a number, not "${halfMoves}"` };
+  if (!/^\d+$/.test(fullMoves) || parseInt(fullMoves, 10) < 1) {
+    return { ok: false, error: `Move number must be 1 or more, not "${fullMoves}"` };
+  }
+  position.halfMoves = parseInt(halfMoves, 10);
+  position.fullMoves = parseInt(fullMoves, 10);
+
+  return { ok: true, position };
+};
+
+export const positionToFen = (position: EditorPosition): string => {
+  const ranks: string[] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    let row = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = position.pieces[`${file}${rank}`];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) row += empty;
+      empty = 0;
+      row += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    ranks.push(empty ? row + empty : row);
+  }
+
+  const castling = CASTLING_RIGHTS.filter((right) => position.castling[right]).join('') || '-';
+  return [
+    ranks.join('/'),
+    position.turn,
+    castling,
+    position.enPassant ?? '-',
+    position.halfMoves,
+    position.fullMoves,
+  ].join(' ');
+};
+
+const isPieceOn = (position: EditorPosition, square: string, type: Piece['type'], color: Piece['color']) => {
+  const piece = position.pieces[square];
+  return !!piece && piece.type === type && piece.color === color;
+};
+
+/**
+ * En passant targets that are consistent with the side to move: a pawn
+ * just advanced two squares past an empty square.
+ */
+export const enPassantCandidates = (position: EditorPosition): string[] => {
+  const moved: Piece['color'] = position.turn === 'w' ? 'b' : 'w';
+  const targetRank = position.turn === 'w' ? 6 : 3;
+  const pawnRank = position.turn === 'w' ? 5 : 4;
+  const originRank = position.turn === 'w' ? 7 : 2;
+  return FILES.split('')
+    .filter((file) =>
+      isPieceOn(position, `${file}${pawnRank}`, 'p', moved) &&
+      !position.pieces[`${file}${targetRank}`] &&
+      !position.pieces[`${file}${originRank}`]
+    )
+    .map((file) => `${file}${targetRank}`);
+};
+
+/**
+ * Everything that makes a position unplayable, as readable messages.
+ * An empty list means the FEN can be used to start a game.
+ */
+export const validatePosition = (position: EditorPosition): string[] => {
+  const errors: string[] = [];
+  const pieces = Object.entries(position.pieces);
+  const count = (type: Piece['type'], color: Piece['color']) =>
+    pieces.filter(([, p]) => p.type === type && p.color === color).length;
+
+  (['w', 'b'] as const).forEach((color) => {
+    const name = color === 'w' ? 'White' : 'Black';
+    const kings = count('k', color);
+    if (kings !== 1) errors.push(`${name} must have exactly one king (found ${kings})`);
+    if (count('p', color) > 8) errors.push(`${name} has more than 8 pawns`);
+  });
+
+  const backRankPawns = pieces
+    .filter(([square, p]) => p.type === 'p' && (square[1] === '1' || square[1] === '8'))
+    .map(([square]) => square);
+  if (backRankPawns.length) {
+    errors.push(`Pawns can't stand on the first or last rank (${backRankPawns.sort().join(', ')})`);
+  }
+
+  CASTLING_RIGHTS.forEach((right) => {
+    if (!position.castling[right]) return;
+    const { king, rook, label } = CASTLING_SQUARES[right];
+    const color = right === right.toUpperCase() ? 'w' : 'b';
+    if (!isPieceOn(position, king, 'k', color) || !isPieceOn(position, rook, 'r', color)) {
+      errors.push(`${label} castling needs the king on ${king} and a rook on ${rook}`);
+    }
+  });
+
+  if (position.enPassant && !enPassantCandidates(position).includes(position.enPassant)) {
+    errors.push(`En passant on ${position.enPassant} needs a pawn that just moved two squares past it`);
+  }
+
+  if (!Number.isInteger(position.halfMoves) || position.halfMoves < 0) {
+    errors.push('Halfmove clock must be 0 or more');
+  }
+  if (!Number.isInteger(position.fullMoves) || position.fullMoves < 1) {
+    errors.push('Move number must be 1 or more');
+  }
+
+  // Only meaningful once both kings are in place
+  if (errors.length === 0) {
+    const opponent = position.turn === 'w' ? 'b' : 'w';
+    try {
+      const flipped = new Chess(positionToFen({ ...position, turn: opponent, enPassant: null }));
+      if (flipped.inCheck()) {
+        errors.push(`${opponent === 'w' ? 'White' : 'Black'} is in check but it is not their move`);
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Invalid position');
+    }
+  }
+
+  return errors;
+};
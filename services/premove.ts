@@ -0,0 +1,170 @@
+import { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { Piece } from '../types';
+import { Variant, gameVariant } from './variants';
+
+// Premoves queued by the player waiting for the opponent. The opponent's
+// reply isn't known yet, so a premove only has to follow how the piece
+// moves; whether it is legal is decided when it is played.
+
+export interface Premove {
+  from: string;
+  to: string;
+  promotion?: 'q'; // premoves always promote to a queen
+}
+
+// The board as it will look once the queued premoves are played
+export interface PremovePosition {
+  pieces: Record<string, Piece>; // keyed by square, e.g. "e1"
+  castling: string; // FEN castling field, less rights the queued moves give up
+  variant: Variant;
+}
+
+const FILES = 'abcdefgh';
+
+const fileOf = (square: string) => FILES.indexOf(square[0]);
+const rankOf = (square: string) => Number(square[1]);
+const backRank = (color: 'w' | 'b') => (color === 'w' ? 1 : 8);
+
+const toSquare = (file: number, rank: number): string | null =>
+  file >= 0 && file < 8 && rank >= 1 && rank <= 8 ? `${FILES[file]}${rank}` : null;
+
+const KNIGHT_STEPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_STEPS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const ROOK_RAYS = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+const BISHOP_RAYS = [[1, 1], [-1, 1], [-1, -1], [1, -1]];
+
+const rightFor = (color: 'w' | 'b', side: 'K' | 'Q') => (color === 'w' ? side : side.toLowerCase());
+
+/**
+ * Squares the king castles to with the rights still held: g/c on its rank
+ * in standard chess, its own rooks in Chess960 where castling is entered
+ * by moving the king onto the rook.
+ */
+const castlingTargets = (position: PremovePosition, square: string, color: 'w' | 'b'): string[] => {
+  const rank = backRank(color);
+  if (rankOf(square) !== rank) return [];
+  const targets: string[] = [];
+  for (const side of ['K', 'Q'] as const) {
+    if (!position.castling.includes(rightFor(color, side))) continue;
+    if (position.variant !== 'chess960') {
+      if (square === `e${rank}`) targets.push(`${side === 'K' ? 'g' : 'c'}${rank}`);
+      continue;
+    }
+    // The outermost rook on that side, as X-FEN rights refer to
+    const files = side === 'K' ? [7, 6, 5, 4, 3, 2, 1] : [0, 1, 2, 3, 4, 5, 6];
+    const rook = files
+      .filter((file) => (side === 'K' ? file > fileOf(square) : file < fileOf(square)))
+      .map((file) => toSquare(file, rank)!)
+      .find((s) => position.pieces[s]?.type === 'r' && position.pieces[s].color === color);
+    if (rook) targets.push(rook);
+  }
+  return targets;
+};
+
+/**
+ * Squares the piece on `square` could premove to, ignoring what stands in
+ * the way since the opponent's reply may clear or block it.
+ */
+export const premoveDestinations = (position: PremovePosition, square: string): string[] => {
+  const piece = position.pieces[square];
+  if (!piece) return [];
+  const file = fileOf(square);
+  const rank = rankOf(square);
+  const targets: string[] = [];
+  const add = (df: number, dr: number) => {
+    const target = toSquare(file + df, rank + dr);
+    if (target) targets.push(target);
+  };
+  const rays = (directions: number[][]) => {
+    for (const [df, dr] of directions) {
+      for (let i = 1; i < 8; i++) add(df * i, dr * i);
+    }
+  };
+
+  switch (piece.type) {
+    case 'p': {
+      const dir = piece.color === 'w' ? 1 : -1;
+      add(0, dir);
+      if (rank === (piece.color === 'w' ? 2 : 7)) add(0, 2 * dir);
+      add(-1, dir);
+      add(1, dir);
+      break;
+    }
+    case 'n':
+      KNIGHT_STEPS.forEach(([df, dr]) => add(df, dr));
+      break;
+    case 'b':
+      rays(BISHOP_RAYS);
+      break;
+    case 'r':
+      rays(ROOK_RAYS);
+      break;
+    case 'q':
+      rays([...ROOK_RAYS, ...BISHOP_RAYS]);
+      break;
+    case 'k':
+      KING_STEPS.forEach(([df, dr]) => add(df, dr));
+      targets.push(...castlingTargets(position, square, piece.color));
+      break;
+  }
+  return [...new Set(targets)];
+};
+
+/**
+ * The premove from -> to, or null if the piece can't move that way.
+ */
+export const createPremove = (position: PremovePosition, from: string, to: string): Premove | null => {
+  if (!premoveDestinations(position, from).includes(to)) return null;
+  const piece = position.pieces[from];
+  const promotes = piece.type === 'p' && (rankOf(to) === 8 || rankOf(to) === 1);
+  return promotes ? { from, to, promotion: 'q' } : { from, to };
+};
+
+const applyPremove = (position: PremovePosition, move: Premove): PremovePosition => {
+  const piece = position.pieces[move.from];
+  if (!piece) return position;
+  const pieces = { ...position.pieces };
+  delete pieces[move.from];
+  const rank = backRank(piece.color);
+
+  let castlingSide: 'K' | 'Q' | null = null;
+  if (piece.type === 'k' && castlingTargets(position, move.from, piece.color).includes(move.to)) {
+    castlingSide = fileOf(move.to) > fileOf(move.from) ? 'K' : 'Q';
+  }
+
+  if (castlingSide) {
+    const rookFrom = position.variant === 'chess960' ? move.to : `${castlingSide === 'K' ? 'h' : 'a'}${rank}`;
+    const rook = pieces[rookFrom];
+    delete pieces[rookFrom];
+    pieces[`${castlingSide === 'K' ? 'g' : 'c'}${rank}`] = piece;
+    if (rook) pieces[`${castlingSide === 'K' ? 'f' : 'd'}${rank}`] = rook;
+  } else {
+    pieces[move.to] = move.promotion ? { type: move.promotion, color: piece.color } : piece;
+  }
+
+  // Moving the king gives up both rights, moving a rook off the back rank its own side's
+  let castling = position.castling;
+  const drop = (side: 'K' | 'Q') => {
+    castling = castling.replace(rightFor(piece.color, side), '');
+  };
+  if (piece.type === 'k') {
+    drop('K');
+    drop('Q');
+  } else if (piece.type === 'r' && rankOf(move.from) === rank) {
+    const king = Object.keys(position.pieces).find((s) => position.pieces[s].type === 'k' && position.pieces[s].color === piece.color);
+    if (king) drop(fileOf(move.from) > fileOf(king) ? 'K' : 'Q');
+  }
+  return { ...position, pieces, castling: castling || '-' };
+};
+
+/**
+ * The live position with the queued premoves played out, in order.
+ */
+export const getPremovePosition = (game: Chess, premoves: Premove[]): PremovePosition => {
+  const pieces: Record<string, Piece> = {};
+  for (const p of game.board().flat()) {
+    if (p) pieces[p.square] = { type: p.type, color: p.color };
+  }
+  const start: PremovePosition = { pieces, castling: game.fen().split(' ')[2], variant: gameVariant(game) };
+  return premoves.reduce(applyPremove, start);
+};
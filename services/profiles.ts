@@ -0,0 +1,33 @@
+const STORAGE_KEY = 'chess_profiles';
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export const loadProfiles = (): PlayerProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const profiles = raw ? JSON.parse(raw) : [];
+    return Array.isArray(profiles) ? profiles : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveProfiles = (profiles: PlayerProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn("Could not save profiles:", e);
+  }
+};
+
+// crypto.randomUUID is missing outside secure contexts, e.g. the app opened by LAN address
+export const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProfile = (name: string): PlayerProfile => ({ id: newId(), name, createdAt: Date.now() });
+
+export const getProfileName = (profiles: PlayerProfile[], id: string | null): string | null =>
+  profiles.find((p) => p.id === id)?.name ?? null;
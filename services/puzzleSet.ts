@@ -0,0 +1,118 @@
+// Puzzles bundled with the app, so the trainer works offline. Each solution
+// starts with the solver's move and alternates with the opponent's replies.
+
+export interface Puzzle {
+  id: string;
+  fen: string; // solver to move
+  moves: string[]; // UCI, e.g. "e2e4", "e7e8q"
+  themes: string[];
+  rating: number;
+}
+
+export const PUZZLES: Puzzle[] = [
+  {
+    id: 'p001',
+    fen: 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4',
+    moves: ['h5f7'],
+    themes: ['mateIn1', 'opening'],
+    rating: 500,
+  },
+  {
+    id: 'p002',
+    fen: 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2',
+    moves: ['d8h4'],
+    themes: ['mateIn1', 'opening'],
+    rating: 550,
+  },
+  {
+    id: 'p003',
+    fen: '6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1',
+    moves: ['d1d8'],
+    themes: ['mateIn1', 'backRankMate'],
+    rating: 600,
+  },
+  {
+    id: 'p004',
+    fen: '3r2k1/5ppp/8/8/8/8/5PPP/6K1 b - - 0 1',
+    moves: ['d8d1'],
+    themes: ['mateIn1', 'backRankMate'],
+    rating: 650,
+  },
+  {
+    id: 'p005',
+    fen: '6rk/6pp/7N/8/8/8/8/6K1 w - - 0 1',
+    moves: ['h6f7'],
+    themes: ['mateIn1', 'smotheredMate'],
+    rating: 800,
+  },
+  {
+    id: 'p006',
+    fen: 'r3k3/5ppp/8/1N6/8/8/5PPP/6K1 w - - 0 1',
+    moves: ['b5c7', 'e8d7', 'c7a8'],
+    themes: ['fork', 'endgame'],
+    rating: 850,
+  },
+  {
+    id: 'p007',
+    fen: '7k/8/6KQ/8/8/8/8/8 w - - 0 1',
+    moves: ['h6g7'],
+    themes: ['mateIn1', 'endgame'],
+    rating: 900,
+  },
+  {
+    id: 'p008',
+    fen: '4k3/8/8/8/1n6/8/8/R3K3 b - - 0 1',
+    moves: ['b4c2', 'e1d2', 'c2a1'],
+    themes: ['fork', 'endgame'],
+    rating: 950,
+  },
+  {
+    id: 'p009',
+    fen: 'q3k3/8/8/8/8/8/8/4K2R w - - 0 1',
+    moves: ['h1h8', 'e8f7', 'h8a8'],
+    themes: ['skewer', 'endgame'],
+    rating: 1000,
+  },
+  {
+    id: 'p010',
+    fen: '3k4/8/8/r7/8/8/8/3QK3 w - - 0 1',
+    moves: ['d1d2', 'd8e7', 'd2a5'],
+    themes: ['fork', 'endgame'],
+    rating: 1100,
+  },
+  {
+    id: 'p011',
+    fen: '4k3/3q4/8/8/P7/8/8/4KB2 w - - 0 1',
+    moves: ['f1b5', 'e8e7', 'b5d7'],
+    themes: ['pin', 'endgame'],
+    rating: 1200,
+  },
+  {
+    id: 'p012',
+    fen: 'r2qkbnr/ppp2ppp/2np4/4N3/2B1P3/2N5/PPPP1PPP/R1BbK2R w KQkq - 0 6',
+    moves: ['c4f7', 'e8e7', 'c3d5'],
+    themes: ['mateIn2', 'opening', 'sacrifice'],
+    rating: 1250,
+  },
+  {
+    id: 'p013',
+    fen: '3q4/8/7k/8/3N4/8/8/3RK3 w - - 0 1',
+    moves: ['d4f5', 'h6g5', 'd1d8'],
+    themes: ['discoveredAttack', 'endgame'],
+    rating: 1300,
+  },
+  {
+    id: 'p014',
+    fen: 'r6k/6pp/7N/8/8/1Q6/8/6K1 w - - 0 1',
+    moves: ['b3g8', 'a8g8', 'h6f7'],
+    themes: ['mateIn2', 'smotheredMate', 'sacrifice'],
+    rating: 1400,
+  },
+  {
+    id: 'p015',
+    fen: '4kb1r/p2n1ppp/4q3/4p1B1/4P3/1Q6/PPP2PPP/2KR4 w k - 1 16',
+    moves: ['b3b8', 'd7b8', 'd1d8'],
+    themes: ['mateIn2', 'sacrifice', 'deflection'],
+    rating: 1500,
+  },
+];
@@ -0,0 +1,123 @@
+import { Chess, Move } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { Puzzle, PUZZLES } from './puzzleSet';
+
+const STORAGE_KEY = 'chess_puzzleStats';
+
+export const INITIAL_PUZZLE_RATING = 1200;
+const MIN_PUZZLE_RATING = 400;
+// Ratings move faster until a few puzzles have been played
+const PROVISIONAL_ATTEMPTS = 10;
+
+export interface PuzzleStats {
+  rating: number;
+  streak: number; // puzzles solved in a row without mistakes or hints
+  bestStreak: number;
+  attempted: number;
+  solvedIds: string[];
+}
+
+// 'assisted' is a solve that needed a hint: unrated, but it ends the streak
+export type PuzzleOutcome = 'solved' | 'failed' | 'assisted';
+
+// playing: waiting for the solver; opponent: reply about to be played;
+// revealing: solution being played out after giving up
+export type PuzzleStatus = 'playing' | 'opponent' | 'revealing' | 'solved' | 'failed';
+
+export interface PuzzleSession {
+  puzzle: Puzzle;
+  solverColor: 'w' | 'b';
+  moves: Move[]; // played so far, from puzzle.fen
+  status: PuzzleStatus;
+  wrongMove: { from: string; to: string } | null; // last rejected attempt
+  hintUsed: boolean;
+  ratingChange: number | null; // set once the attempt has been rated
+}
+
+const emptyStats = (): PuzzleStats => ({
+  rating: INITIAL_PUZZLE_RATING,
+  streak: 0,
+  bestStreak: 0,
+  attempted: 0,
+  solvedIds: [],
+});
+
+export const loadPuzzleStats = (): PuzzleStats => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyStats();
+    return { ...emptyStats(), ...JSON.parse(raw) };
+  } catch {
+    return emptyStats();
+  }
+};
+
+export const savePuzzleStats = (stats: PuzzleStats) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.warn("Could not save puzzle stats:", e);
+  }
+};
+
+/**
+ * Elo update against the puzzle's rating. Returns the new stats and the
+ * rating change, which is 0 for assisted solves.
+ */
+export const recordPuzzleResult = (stats: PuzzleStats, puzzle: Puzzle, outcome: PuzzleOutcome) => {
+  let ratingChange = 0;
+  if (outcome !== 'assisted') {
+    const k = stats.attempted < PROVISIONAL_ATTEMPTS ? 48 : 24;
+    const expected = 1 / (1 + Math.pow(10, (puzzle.rating - stats.rating) / 400));
+    ratingChange = Math.round(k * ((outcome === 'solved' ? 1 : 0) - expected));
+  }
+  const streak = outcome === 'solved' ? stats.streak + 1 : 0;
+  const next: PuzzleStats = {
+    rating: Math.max(MIN_PUZZLE_RATING, stats.rating + ratingChange),
+    streak,
+    bestStreak: Math.max(stats.bestStreak, streak),
+    attempted: stats.attempted + 1,
+    solvedIds: outcome === 'failed' || stats.solvedIds.includes(puzzle.id) ? stats.solvedIds : [...stats.solvedIds, puzzle.id],
+  };
+  return { stats: next, ratingChange: next.rating - stats.rating };
+};
+
+/**
+ * A puzzle near the player's rating, preferring ones not solved yet. Starts
+ * over once the whole set has been solved.
+ */
+export const pickPuzzle = (stats: PuzzleStats, excludeId?: string): Puzzle => {
+  const others = PUZZLES.filter((p) => p.id !== excludeId);
+  const unsolved = others.filter((p) => !stats.solvedIds.includes(p.id));
+  const pool = (unsolved.length > 0 ? unsolved : others)
+    .slice()
+    .sort((a, b) => Math.abs(a.rating - stats.rating) - Math.abs(b.rating - stats.rating));
+  // Some variety among the closest few
+  const nearest = pool.slice(0, 3);
+  return nearest[Math.floor(Math.random() * nearest.length)];
+};
+
+export const startPuzzleSession = (puzzle: Puzzle): PuzzleSession => ({
+  puzzle,
+  solverColor: new Chess(puzzle.fen).turn(),
+  moves: [],
+  status: 'playing',
+  wrongMove: null,
+  hintUsed: false,
+  ratingChange: null,
+});
+
+export const uciToMove = (uci: string) => ({
+  from: uci.slice(0, 2),
+  to: uci.slice(2, 4),
+  promotion: uci.length > 4 ? uci[4] : undefined,
+});
+
+export const moveToUci = (move: { from: string; to: string; promotion?: string }) =>
+  `${move.from}${move.to}${move.promotion ?? ''}`;
+
+/**
+ * Whether `move` continues the solution. Any checkmate is accepted, since
+ * mate puzzles often have more than one finishing move.
+ */
+export const isSolutionMove = (session: PuzzleSession, move: Move) =>
+  moveToUci(move) === session.puzzle.moves[session.moves.length] || move.san.endsWith('#');
@@ -0,0 +1,122 @@
+import { GameResult } from '../types';
+import { TimeControlCategory } from './clock';
+import { getEngineLevel } from './engine';
+import { RecordedPlayer } from './gameHistory';
+
+// Local Elo ratings for player profiles, one per time-control category.
+// The computer's levels have fixed ratings so profiles can be compared with
+// each other even when they mostly play the bot.
+
+const STORAGE_KEY = 'chess_ratings';
+
+export const INITIAL_RATING = 1200;
+const MIN_RATING = 100;
+// Ratings move faster until this many games have been played in a category
+export const PROVISIONAL_GAMES = 20;
+const PROVISIONAL_K = 40;
+const ESTABLISHED_K = 20;
+const MAX_HISTORY = 200;
+
+export interface RatingPoint {
+  at: number;
+  rating: number;
+}
+
+export interface CategoryRating {
+  rating: number;
+  games: number;
+  history: RatingPoint[]; // oldest first, starting with the initial rating
+}
+
+// Profile id -> category -> rating; categories a profile hasn't played are absent
+export type RatingBook = Record<string, Partial<Record<TimeControlCategory, CategoryRating>>>;
+
+export interface RatingChange {
+  before: number;
+  after: number;
+  provisional: boolean; // still provisional after this game
+}
+
+export const loadRatings = (): RatingBook => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const book = raw ? JSON.parse(raw) : {};
+    return book && typeof book === 'object' && !Array.isArray(book) ? book : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveRatings = (book: RatingBook) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(book));
+  } catch (e) {
+    console.warn("Could not save ratings:", e);
+  }
+};
+
+export const getRating = (book: RatingBook, profileId: string, category: TimeControlCategory): CategoryRating =>
+  book[profileId]?.[category] ?? { rating: INITIAL_RATING, games: 0, history: [] };
+
+export const isProvisional = (rating: CategoryRating) => rating.games < PROVISIONAL_GAMES;
+
+/**
+ * Rating shown beside a name, with a question mark while provisional.
+ */
+export const formatRating = (rating: CategoryRating) => `${rating.rating}${isProvisional(rating) ? '?' : ''}`;
+
+/**
+ * Rating of a recorded player: a profile's current rating or a level's anchor,
+ * or null for guests, who can't take part in rated games.
+ */
+const playerRating = (book: RatingBook, player: RecordedPlayer, category: TimeControlCategory): number | null => {
+  if (player.profileId) return getRating(book, player.profileId, category).rating;
+  if (player.engineLevel !== null) return getEngineLevel(player.engineLevel).rating;
+  return null;
+};
+
+const expectedScore = (own: number, opponent: number) => 1 / (1 + 10 ** ((opponent - own) / 400));
+
+/**
+ * Applies a finished game to the rating book. Returns the new book and each
+ * side's change (null for the computer), or null when the game can't be rated
+ * because a side has neither a profile nor an engine level, no profile played,
+ * or one profile played both sides.
+ */
+export const rateGame = (
+  book: RatingBook,
+  players: { w: RecordedPlayer; b: RecordedPlayer },
+  result: GameResult,
+  category: TimeControlCategory,
+  at: number
+): { book: RatingBook; changes: { w: RatingChange | null; b: RatingChange | null } } | null => {
+  const white = playerRating(book, players.w, category);
+  const black = playerRating(book, players.b, category);
+  if (white === null || black === null) return null;
+  if (!players.w.profileId && !players.b.profileId) return null;
+  if (players.w.profileId === players.b.profileId) return null;
+
+  const next: RatingBook = { ...book };
+  const changes: { w: RatingChange | null; b: RatingChange | null } = { w: null, b: null };
+
+  for (const color of ['w', 'b'] as const) {
+    const profileId = players[color].profileId;
+    if (!profileId) continue;
+    const current = getRating(book, profileId, category);
+    const [own, opponent] = color === 'w' ? [white, black] : [black, white];
+    const score = result.winner === null ? 0.5 : result.winner === color ? 1 : 0;
+    const k = isProvisional(current) ? PROVISIONAL_K : ESTABLISHED_K;
+    const after = Math.max(MIN_RATING, Math.round(own + k * (score - expectedScore(own, opponent))));
+
+    const history = current.history.length > 0 ? current.history : [{ at, rating: current.rating }];
+    const updated: CategoryRating = {
+      rating: after,
+      games: current.games + 1,
+      history: [...history, { at, rating: after }].slice(-MAX_HISTORY),
+    };
+    next[profileId] = { ...next[profileId], [category]: updated };
+    changes[color] = { before: current.rating, after, provisional: isProvisional(updated) };
+  }
+
+  return { book: next, changes };
+};
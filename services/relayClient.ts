@@ -0,0 +1,97 @@
+import { ClockState } from './clock';
+import { ClientMessage, RELAY_DEFAULT_PORT, ServerMessage } from './relayProtocol';
+
+export type RelayStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface RelayClient {
+  send: (message: ClientMessage) => void;
+  // Leaves the game for good; no further reconnects
+  close: () => void;
+}
+
+const MAX_RETRY_DELAY_MS = 10000;
+
+// The relay runs next to the dev server, so devices on the LAN reach it by the same host
+export const defaultRelayUrl = () =>
+  `ws://${typeof location !== 'undefined' && location.hostname ? location.hostname : 'localhost'}:${RELAY_DEFAULT_PORT}`;
+
+/**
+ * Connects to the relay and sends `hello` (create or join). Once seated, a
+ * dropped connection is retried with backoff and rejoins the same seat; the
+ * server answers with the full move list to replay.
+ */
+export const connectRelay = (
+  url: string,
+  hello: ClientMessage,
+  onMessage: (message: ServerMessage) => void,
+  onStatus: (status: RelayStatus) => void
+): RelayClient => {
+  let socket: WebSocket | null = null;
+  let seat: { code: string; token: string } | null = null;
+  let closed = false;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const open = () => {
+    onStatus(seat ? 'reconnecting' : 'connecting');
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempts = 0;
+      onStatus('open');
+      ws.send(JSON.stringify(seat ? { type: 'rejoin', code: seat.code, token: seat.token } : hello));
+    };
+
+    ws.onmessage = (event) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'seated') seat = { code: message.room.code, token: message.token };
+      onMessage(message);
+    };
+
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      if (closed) return;
+      // Never seated: the server is unreachable or refused us, nothing to rejoin
+      if (!seat) {
+        closed = true;
+        onStatus('closed');
+        return;
+      }
+      attempts++;
+      onStatus('reconnecting');
+      retryTimer = setTimeout(open, Math.min(MAX_RETRY_DELAY_MS, 500 * 2 ** attempts));
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave' }));
+      socket?.close();
+      socket = null;
+      onStatus('closed');
+    },
+  };
+};
+
+/**
+ * Moves a clock stamped with server time onto this device's clock. Network
+ * latency is ignored, so the running side's display is behind by at most
+ * one trip.
+ */
+export const toLocalClock = (clock: ClockState, serverNow: number): ClockState => ({
+  ...clock,
+  turnStartedAt: clock.turnStartedAt === null ? null : clock.turnStartedAt + (Date.now() - serverNow),
+});
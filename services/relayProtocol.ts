@@ -0,0 +1,48 @@
+import { GameResult } from '../types';
+import { ClockState, TimeControl } from './clock';
+
+// Messages between the app and the multiplayer relay (server/relay.ts),
+// sent as JSON over a WebSocket. Clock timestamps are in server time.
+
+export const RELAY_DEFAULT_PORT = 8787;
+
+export interface RelayMove {
+  from: string;
+  to: string;
+  promotion?: string;
+}
+
+export interface RoomState {
+  code: string;
+  startFen: string;
+  moves: string[]; // SAN, replayed from startFen
+  timeControl: TimeControl;
+  clock: ClockState;
+  names: { w: string | null; b: string | null }; // null until that seat is taken
+  connected: { w: boolean; b: boolean };
+  drawOffer: 'w' | 'b' | null; // the side whose draw offer is waiting for an answer
+  ending: GameResult | null; // resignation or agreement; endings on the board show in the moves
+}
+
+export type ClientMessage =
+  | { type: 'create'; name: string; color: 'w' | 'b' | 'random'; timeControl: TimeControl }
+  | { type: 'join'; code: string; name: string }
+  // Reconnecting to a seat taken earlier, identified by the token it was given
+  | { type: 'rejoin'; code: string; token: string }
+  // ply is the number of moves already played, so stale moves are rejected
+  | { type: 'move'; move: RelayMove; ply: number }
+  | { type: 'resign' }
+  // Offering while the opponent's offer stands accepts it
+  | { type: 'offerDraw' }
+  | { type: 'answerDraw'; accept: boolean }
+  | { type: 'sync' }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'seated'; color: 'w' | 'b'; token: string; room: RoomState; serverNow: number }
+  | { type: 'state'; room: RoomState; serverNow: number }
+  | { type: 'move'; move: RelayMove; san: string; ply: number; clock: ClockState; serverNow: number }
+  | { type: 'drawOffer'; color: 'w' | 'b' | null }
+  | { type: 'ended'; ending: GameResult; clock: ClockState; serverNow: number }
+  | { type: 'presence'; connected: { w: boolean; b: boolean } }
+  | { type: 'error'; message: string };
@@ -0,0 +1,122 @@
+import { Move } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+import { toEvalScore, finalEvalScore } from './engine';
+import { analyzeWithEngine } from './engineService';
+import { Variant, createGame, sideToMoveLost } from './variants';
+
+// Post-game review: every position is searched with the local engine, so a
+// whole game costs no Gemini calls.
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface ReviewedMove {
+  ply: number; // 1-based, matches the move list
+  san: string;
+  color: 'w' | 'b';
+  bestSan: string | null; // engine's choice in the position before the move
+  cpLoss: number;
+  accuracy: number; // 0-100
+  classification: MoveClassification;
+}
+
+export interface GameReview {
+  evals: number[]; // White's perspective in centipawns, one per position (ply 0..n), capped at EVAL_CAP
+  mates: (number | null)[]; // signed moves-to-mate for White's perspective, when found
+  moves: ReviewedMove[];
+  accuracy: { w: number | null; b: number | null };
+}
+
+// Evaluations beyond this are all "winning"; capping keeps one blunder in a
+// lost position from dominating the centipawn loss
+export const EVAL_CAP = 1000;
+
+const REVIEW_SEARCH = { depth: 5, timeMs: 800 };
+
+// Upper bounds (exclusive) of centipawn loss for each classification
+const CLASSIFICATION_LIMITS: [MoveClassification, number][] = [
+  ['best', 10],
+  ['good', 50],
+  ['inaccuracy', 100],
+  ['mistake', 300],
+];
+
+export const classifyLoss = (cpLoss: number, playedBest: boolean): MoveClassification => {
+  if (playedBest) return 'best';
+  return CLASSIFICATION_LIMITS.find(([, limit]) => cpLoss < limit)?.[0] ?? 'blunder';
+};
+
+// Expected score (0-100) for White at a given evaluation
+const winPercent = (cp: number) => 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+
+// Per-move accuracy from the drop in win chance, as popularised by Lichess
+const moveAccuracy = (before: number, after: number) => {
+  const drop = Math.max(0, before - after);
+  return Math.min(100, Math.max(0, 103.1668 * Math.exp(-0.04354 * drop) - 3.1669));
+};
+
+const evaluatePosition = async (
+  fen: string,
+  variant: Variant
+): Promise<{ cp: number; mate: number | null; bestUci: string | null; bestSan: string | null }> => {
+  const game = createGame(variant, fen);
+  const best = game.isGameOver() ? null : (await analyzeWithEngine(fen, REVIEW_SEARCH, variant)).lines[0];
+  const score = best ? toEvalScore(best.score, game.turn()) : finalEvalScore(sideToMoveLost(game), game.turn());
+  return {
+    cp: Math.max(-EVAL_CAP, Math.min(EVAL_CAP, score.cp)),
+    mate: score.mate,
+    bestUci: best?.uci ?? null,
+    bestSan: best?.san ?? null,
+  };
+};
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Reviews a finished game ply by ply. `onProgress` is called after each
+ * position and `isCancelled` between searches, so an abandoned review
+ * stops early and resolves to null.
+ */
+export const reviewGame = async (
+  history: Move[],
+  onProgress: (done: number, total: number) => void,
+  isCancelled: () => boolean = () => false,
+  variant: Variant = 'standard'
+): Promise<GameReview | null> => {
+  if (history.length === 0) return null;
+  const fens = [history[0].before, ...history.map((m) => m.after)];
+  const positions: Awaited<ReturnType<typeof evaluatePosition>>[] = [];
+
+  for (const fen of fens) {
+    if (isCancelled()) return null;
+    positions.push(await evaluatePosition(fen, variant));
+    onProgress(positions.length, fens.length);
+  }
+  if (isCancelled()) return null;
+
+  const moves: ReviewedMove[] = history.map((move, index) => {
+    const before = positions[index];
+    const after = positions[index + 1];
+    const sign = move.color === 'w' ? 1 : -1;
+    const cpLoss = Math.max(0, sign * (before.cp - after.cp));
+    const accuracy = moveAccuracy(winPercent(sign * before.cp), winPercent(sign * after.cp));
+    const playedUci = `${move.from}${move.to}${move.promotion ?? ''}`;
+    return {
+      ply: index + 1,
+      san: move.san,
+      color: move.color,
+      bestSan: before.bestSan,
+      cpLoss,
+      accuracy,
+      classification: classifyLoss(cpLoss, playedUci === before.bestUci),
+    };
+  });
+
+  const accuracyFor = (color: 'w' | 'b') => average(moves.filter((m) => m.color === color).map((m) => m.accuracy));
+
+  return {
+    evals: positions.map((p) => p.cp),
+    mates: positions.map((p) => p.mate),
+    moves,
+    accuracy: { w: accuracyFor('w'), b: accuracyFor('b') },
+  };
+};
@@ -0,0 +1,72 @@
+// Arrows and circled squares drawn on the board, and their PGN form: the
+// [%cal] (arrows) and [%csl] (squares) commands inside move comments, with
+// colours G, R, Y and B as most GUIs and servers write them.
+
+export type ShapeColor = 'G' | 'R' | 'Y' | 'B';
+
+export interface BoardShape {
+  from: string;
+  to: string; // same as `from` for a circled square
+  color: ShapeColor;
+}
+
+export const SHAPE_COLORS: { value: ShapeColor, label: string, stroke: string }[] = [
+  { value: 'G', label: 'Green', stroke: '#15781b' },
+  { value: 'R', label: 'Red', stroke: '#c22b2b' },
+  { value: 'Y', label: 'Yellow', stroke: '#e68f00' },
+  { value: 'B', label: 'Blue', stroke: '#1d4ed8' },
+];
+
+export const shapeStroke = (color: ShapeColor) => SHAPE_COLORS.find((c) => c.value === color)!.stroke;
+
+/**
+ * Colour picked with modifier keys while right-dragging, as on most sites:
+ * Shift red, Alt blue, both yellow. Without modifiers the chosen colour.
+ */
+export const modifierColor = (e: { shiftKey: boolean; altKey: boolean; ctrlKey: boolean; metaKey: boolean }, fallback: ShapeColor): ShapeColor => {
+  const red = e.shiftKey || e.ctrlKey || e.metaKey;
+  if (red && e.altKey) return 'Y';
+  if (red) return 'R';
+  if (e.altKey) return 'B';
+  return fallback;
+};
+
+/**
+ * Draws `shape`, or erases it when the same shape is already there. Drawing
+ * over a shape in another colour recolours it.
+ */
+export const toggleShape = (shapes: BoardShape[], shape: BoardShape): BoardShape[] => {
+  const existing = shapes.find((s) => s.from === shape.from && s.to === shape.to);
+  const others = shapes.filter((s) => s !== existing);
+  return existing?.color === shape.color ? others : [...others, shape];
+};
+
+/**
+ * The PGN comment commands for a position's shapes, e.g.
+ * "[%csl Gd4] [%cal Ge2e4,Rd8h4]", or '' when there are none.
+ */
+export const formatShapeCommands = (shapes: BoardShape[]): string => {
+  const squares = shapes.filter((s) => s.from === s.to).map((s) => `${s.color}${s.from}`);
+  const arrows = shapes.filter((s) => s.from !== s.to).map((s) => `${s.color}${s.from}${s.to}`);
+  return [
+    squares.length > 0 ? `[%csl ${squares.join(',')}]` : '',
+    arrows.length > 0 ? `[%cal ${arrows.join(',')}]` : '',
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Reads [%csl]/[%cal] commands out of a comment. Returns the shapes found
+ * and the rest of the comment text. Unknown colours and squares are skipped.
+ */
+export const parseShapeCommands = (comment: string): { shapes: BoardShape[]; text: string } => {
+  const shapes: BoardShape[] = [];
+  const text = comment.replace(/\[%(csl|cal)\s+([^\]]*)\]/g, (_, command: string, list: string) => {
+    const pattern = command === 'csl' ? /^([GRYB])([a-h][1-8])$/ : /^([GRYB])([a-h][1-8])([a-h][1-8])$/;
+    for (const entry of list.split(',')) {
+      const match = entry.trim().match(pattern);
+      if (match) shapes.push({ color: match[1] as ShapeColor, from: match[2], to: match[3] ?? match[2] });
+    }
+    return '';
+  });
+  return { shapes, text: text.replace(/\s+/g, ' ').trim() };
+};
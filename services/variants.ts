@@ -0,0 +1,438 @@
+import { Chess } from 'https://esm.sh/chess.js@1.0.0-beta.8';
+
+// Chess variants, built by overriding chess.js internals on the game so move
+// generation, SAN, undo and the engine (which drives the same internals) all
+// follow the variant's rules. Code that rebuilds a game from a FEN goes through
+// createGame with the game's variant instead of `new Chess(fen)`.
+
+export type Variant = 'standard' | 'chess960' | 'kingOfTheHill' | 'threeCheck';
+
+export interface VariantInfo {
+  value: Variant;
+  label: string;
+  pgnName: string; // PGN Variant tag; absent for standard chess
+  description: string;
+  // Rules summary for the Gemini prompts, so the coach doesn't assume standard chess
+  rules: string;
+}
+
+export const VARIANTS: VariantInfo[] = [
+  {
+    value: 'standard',
+    label: 'Standard',
+    pgnName: 'Standard',
+    description: 'Regular chess.',
+    rules: '',
+  },
+  {
+    value: 'chess960',
+    label: 'Chess960',
+    pgnName: 'Chess960',
+    description: 'Shuffled back rank. Castle by moving the king onto its rook.',
+    rules: 'The variant is Chess960 (Fischer Random): the back-rank pieces start shuffled, otherwise the rules are standard. '
+      + 'Castling puts the king on the g- or c-file and the rook next to it on the f- or d-file, and is written O-O or O-O-O. '
+      + 'In the FEN, K/Q castling rights refer to the outermost rook on that side of the king.',
+  },
+  {
+    value: 'kingOfTheHill',
+    label: 'King of the Hill',
+    pgnName: 'King of the Hill',
+    description: 'Bring your king to d4, e4, d5 or e5 to win.',
+    rules: 'The variant is King of the Hill: standard rules, but a player also wins immediately by moving their king to d4, e4, d5 or e5. '
+      + 'Kings can safely head for the centre once the attackers are gone.',
+  },
+  {
+    value: 'threeCheck',
+    label: 'Three-check',
+    pgnName: 'Three-check',
+    description: 'Give check three times to win.',
+    rules: 'The variant is Three-check: standard rules, but a player also wins immediately by giving check for the third time. '
+      + 'The FEN ends with the checks given so far as "+white+black"; every check is valuable.',
+  },
+];
+
+export const getVariantInfo = (variant: Variant): VariantInfo =>
+  VARIANTS.find((v) => v.value === variant) ?? VARIANTS[0];
+
+/**
+ * Variant from a PGN Variant tag, or null for one this app can't play.
+ */
+export const parsePgnVariant = (name: string | undefined): Variant | null => {
+  if (!name) return 'standard';
+  const key = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (key === 'standard' || key === 'normal' || key === 'fromposition') return 'standard';
+  if (key === 'chess960' || key === 'fischerandom' || key === 'fischerrandom') return 'chess960';
+  if (key === 'kingofthehill' || key === 'koth') return 'kingOfTheHill';
+  if (key === 'threecheck' || key === '3check') return 'threeCheck';
+  return null;
+};
+
+// Knight pairs on the five squares left after the bishops and queen, in Scharnagl order
+const KNIGHT_PLACEMENTS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+export const STANDARD_CHESS960_NUMBER = 518;
+
+/**
+ * Starting FEN of Chess960 position `n` (0-959) in the standard numbering,
+ * where 518 is the regular set-up.
+ */
+export const chess960StartFen = (n: number): string => {
+  const row: (string | null)[] = Array(8).fill(null);
+  const empty = () => row.map((p, i) => (p ? -1 : i)).filter((i) => i >= 0);
+  let rest = Math.max(0, Math.min(959, Math.floor(n)));
+
+  row[(rest % 4) * 2 + 1] = 'B';
+  rest = Math.floor(rest / 4);
+  row[(rest % 4) * 2] = 'B';
+  rest = Math.floor(rest / 4);
+  row[empty()[rest % 6]] = 'Q';
+  rest = Math.floor(rest / 6);
+  const knights = empty();
+  for (const i of KNIGHT_PLACEMENTS[rest]) row[knights[i]] = 'N';
+  const [queenRook, king, kingRook] = empty();
+  row[queenRook] = 'R';
+  row[king] = 'K';
+  row[kingRook] = 'R';
+
+  const white = row.join('');
+  return `${white.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${white} w KQkq - 0 1`;
+};
+
+export const randomChess960Number = () => Math.floor(Math.random() * 960);
+
+/**
+ * Starting FEN for a new game. Chess960 uses position `chess960Number`, or
+ * a random one when it is null.
+ */
+export const variantStartFen = (variant: Variant, chess960Number: number | null = null): string => {
+  if (variant === 'chess960') return chess960StartFen(chess960Number ?? randomChess960Number());
+  return new Chess().fen() + (variant === 'threeCheck' ? ' +0+0' : '');
+};
+
+/**
+ * PGN tags that mark a game as a variant. Standard games get none.
+ */
+export const variantPgnTags = (variant: Variant): Record<string, string> =>
+  variant === 'standard' ? {} : { Variant: getVariantInfo(variant).pgnName };
+
+// A chess.js game carrying the variant whose rules it plays by. An intersection
+// rather than an interface, since the URL import leaves Chess untyped for tsc.
+export type VariantGame = Chess & { variant: Variant };
+
+// chess.js internals the variants override or read. They are private and
+// undocumented, so they are checked against chess.js 1.0.0-beta.8 exactly
+// (the version pinned in package.json and the import URL); any upgrade, even
+// a patch release, has to be checked against them again.
+interface InternalMove {
+  color: 'w' | 'b';
+  from: number;
+  to: number;
+  piece: string;
+  captured?: string;
+  promotion?: string;
+  flags: number;
+}
+
+type Piece = { type: string; color: 'w' | 'b' };
+
+interface HistoryEntry {
+  move: InternalMove;
+  kings: { w: number; b: number };
+  turn: 'w' | 'b';
+  castling: { w: number; b: number };
+  epSquare: number;
+  halfMoves: number;
+  moveNumber: number;
+}
+
+interface ChessInternals {
+  _board: (Piece | undefined)[];
+  _turn: 'w' | 'b';
+  _kings: { w: number; b: number };
+  _castling: { w: number; b: number };
+  _epSquare: number;
+  _halfMoves: number;
+  _moveNumber: number;
+  _history: HistoryEntry[];
+  _attacked(color: 'w' | 'b', square: number): boolean;
+  _isKingAttacked(color: 'w' | 'b'): boolean;
+  _push(move: InternalMove): void;
+  _moves(options?: { legal?: boolean; piece?: string; square?: string }): InternalMove[];
+  _makeMove(move: InternalMove): void;
+  _undoMove(): InternalMove | null;
+  load(fen: string, options?: object): void;
+  fen(): string;
+}
+
+// The one way into those internals
+const internals = (game: Chess) => game as unknown as ChessInternals;
+
+const KSIDE_CASTLE = 32;
+const QSIDE_CASTLE = 64;
+const EMPTY = -1;
+const CENTRE = new Set([0x33, 0x34, 0x43, 0x44]); // d5, e5, d4, e4
+
+const swap = (color: 'w' | 'b') => (color === 'w' ? 'b' : 'w');
+
+const squareName = (sq: number) => 'abcdefgh'[sq & 7] + (8 - (sq >> 4));
+
+/**
+ * Chess960: castling rights follow the outermost rook on each side of the
+ * king (X-FEN). Castling is generated as the king moving onto its rook, so
+ * the move can be entered by dropping the king on the rook and the UCI
+ * reads the way Chess960 engines write it.
+ */
+const playChess960 = (game: Chess) => {
+  const g = internals(game);
+  const baseMoves = g._moves.bind(g);
+  const baseMakeMove = g._makeMove.bind(g);
+  const baseUndoMove = g._undoMove.bind(g);
+
+  // Square of the rook that castles on `flag`'s side, or EMPTY
+  const castlingRook = (color: 'w' | 'b', flag: number): number => {
+    const king = g._kings[color];
+    const rank = color === 'w' ? 0x70 : 0x00;
+    if (king === EMPTY || (king & 0xf0) !== rank || !(g._castling[color] & flag)) return EMPTY;
+    const files = flag === KSIDE_CASTLE ? [7, 6, 5, 4, 3, 2, 1] : [0, 1, 2, 3, 4, 5, 6];
+    for (const file of files) {
+      const square = rank + file;
+      if (flag === KSIDE_CASTLE ? square <= king : square >= king) break;
+      const piece = g._board[square];
+      if (piece?.type === 'r' && piece.color === color) return square;
+    }
+    return EMPTY;
+  };
+
+  const castlingMoves = (): InternalMove[] => {
+    const us = g._turn;
+    const them = swap(us);
+    const king = g._kings[us];
+    const moves: InternalMove[] = [];
+    if (king === EMPTY || g._attacked(them, king)) return moves;
+
+    for (const flag of [KSIDE_CASTLE, QSIDE_CASTLE]) {
+      const rook = castlingRook(us, flag);
+      if (rook === EMPTY) continue;
+      const rank = king & 0xf0;
+      const kingTo = rank + (flag === KSIDE_CASTLE ? 6 : 2);
+      const rookTo = rank + (flag === KSIDE_CASTLE ? 5 : 3);
+      // Every square either piece crosses or lands on must be free of anything else
+      const span = [king, rook, kingTo, rookTo];
+      let clear = true;
+      for (let sq = Math.min(...span); sq <= Math.max(...span); sq++) {
+        if (sq !== king && sq !== rook && g._board[sq]) clear = false;
+      }
+      // and the king may not pass through check (its final square is checked after the move)
+      const step = kingTo > king ? 1 : -1;
+      for (let sq = king; clear && sq !== kingTo; sq += step) {
+        if (sq !== king && g._attacked(them, sq)) clear = false;
+      }
+      if (clear) moves.push({ color: us, from: king, to: rook, piece: 'k', flags: flag });
+    }
+    return moves;
+  };
+
+  g._moves = (options = {}) => {
+    // Standard castling assumes the king on e1, so generate it here instead
+    const rights = g._castling;
+    g._castling = { w: 0, b: 0 };
+    let moves: InternalMove[];
+    try {
+      moves = baseMoves(options);
+    } finally {
+      g._castling = rights;
+    }
+
+    const forPiece = options.piece?.toLowerCase();
+    if (forPiece && forPiece !== 'k') return moves;
+    const king = g._kings[g._turn];
+    if (options.square && options.square.toLowerCase() !== squareName(king)) return moves;
+
+    for (const move of castlingMoves()) {
+      if (options.legal === false) {
+        moves.push(move);
+        continue;
+      }
+      g._makeMove(move);
+      if (!g._isKingAttacked(move.color)) moves.push(move);
+      g._undoMove();
+    }
+    return moves;
+  };
+
+  g._makeMove = (move) => {
+    const us = g._turn;
+    const them = swap(us);
+
+    if (move.flags & (KSIDE_CASTLE | QSIDE_CASTLE)) {
+      g._push(move);
+      const rank = move.from & 0xf0;
+      const kingTo = rank + (move.flags & KSIDE_CASTLE ? 6 : 2);
+      const rookTo = rank + (move.flags & KSIDE_CASTLE ? 5 : 3);
+      const king = g._board[move.from];
+      const rook = g._board[move.to];
+      delete g._board[move.from];
+      delete g._board[move.to];
+      g._board[kingTo] = king;
+      g._board[rookTo] = rook;
+      g._kings[us] = kingTo;
+      g._castling[us] = 0;
+      g._epSquare = EMPTY;
+      g._halfMoves++;
+      if (us === 'b') g._moveNumber++;
+      g._turn = them;
+      return;
+    }
+
+    // chess.js clears rights for rooks on the corners; work them out from the real castling rooks
+    const rights = { ...g._castling };
+    for (const flag of [KSIDE_CASTLE, QSIDE_CASTLE]) {
+      if (move.from === castlingRook(us, flag)) rights[us] &= ~flag;
+      if (move.to === castlingRook(them, flag)) rights[them] &= ~flag;
+    }
+    if (move.piece === 'k') rights[us] = 0;
+    baseMakeMove(move);
+    g._castling = rights;
+  };
+
+  g._undoMove = () => {
+    const last = g._history[g._history.length - 1];
+    if (!last || !(last.move.flags & (KSIDE_CASTLE | QSIDE_CASTLE))) return baseUndoMove();
+
+    g._history.pop();
+    const move: InternalMove = last.move;
+    g._kings = last.kings;
+    g._turn = last.turn;
+    g._castling = last.castling;
+    g._epSquare = last.epSquare;
+    g._halfMoves = last.halfMoves;
+    g._moveNumber = last.moveNumber;
+    const rank = move.from & 0xf0;
+    const kingTo = rank + (move.flags & KSIDE_CASTLE ? 6 : 2);
+    const rookTo = rank + (move.flags & KSIDE_CASTLE ? 5 : 3);
+    const king = g._board[kingTo];
+    const rook = g._board[rookTo];
+    delete g._board[kingTo];
+    delete g._board[rookTo];
+    g._board[move.from] = king;
+    g._board[move.to] = rook;
+    return move;
+  };
+};
+
+/**
+ * King of the Hill: a king on one of the four centre squares wins. A lone
+ * king can still walk there, so bare kings are not a draw.
+ */
+const playKingOfTheHill = (game: Chess) => {
+  const baseIsGameOver = game.isGameOver.bind(game);
+  game.isInsufficientMaterial = () => false;
+  game.isGameOver = () => getVariantWinner(game) !== null || baseIsGameOver();
+};
+
+// Checks each side has given in a Three-check game, and whether each move
+// played gave one so undo can take it back
+const threeCheckStates = new WeakMap<Chess, { checks: { w: number; b: number }; gaveCheck: boolean[] }>();
+
+/**
+ * Three-check: the third check wins. Checks given so far ride along at the
+ * end of the FEN as "+white+black", so positions survive a FEN round trip.
+ */
+const playThreeCheck = (game: Chess) => {
+  const g = internals(game);
+  const baseLoad = g.load.bind(g);
+  const baseFen = g.fen.bind(g);
+  const baseMakeMove = g._makeMove.bind(g);
+  const baseUndoMove = g._undoMove.bind(g);
+  const baseIsGameOver = game.isGameOver.bind(game);
+  const state = () => threeCheckStates.get(game)!;
+
+  g.load = (fen, options) => {
+    const match = fen.trim().match(/^(.*?)\s+\+(\d)\+(\d)$/);
+    threeCheckStates.set(game, {
+      checks: match ? { w: Number(match[2]), b: Number(match[3]) } : { w: 0, b: 0 },
+      gaveCheck: [],
+    });
+    baseLoad(match ? match[1] : fen, options);
+  };
+
+  g.fen = () => `${baseFen()} +${state().checks.w}+${state().checks.b}`;
+
+  g._makeMove = (move) => {
+    baseMakeMove(move);
+    const gaveCheck = g._isKingAttacked(g._turn);
+    const { checks } = state();
+    if (gaveCheck) state().checks = { ...checks, [move.color]: checks[move.color] + 1 };
+    state().gaveCheck.push(gaveCheck);
+  };
+
+  g._undoMove = () => {
+    const move = baseUndoMove();
+    const { checks, gaveCheck } = state();
+    if (move && gaveCheck.pop()) state().checks = { ...checks, [move.color]: checks[move.color] - 1 };
+    return move;
+  };
+
+  // Only bare kings can't give check
+  game.isInsufficientMaterial = () => game.board().flat().every((p) => !p || p.type === 'k');
+  game.isGameOver = () => getVariantWinner(game) !== null || baseIsGameOver();
+};
+
+/**
+ * A game of `variant`, starting from `fen` or the variant's usual start.
+ * The variant's rules are installed on a plain chess.js game before the
+ * position is loaded. Throws like `new Chess(fen)` on an invalid FEN.
+ */
+export const createGame = (variant: Variant, fen?: string): VariantGame => {
+  const game = Object.assign(new Chess(), { variant });
+  switch (variant) {
+    case 'chess960':
+      playChess960(game);
+      break;
+    case 'kingOfTheHill':
+      playKingOfTheHill(game);
+      break;
+    case 'threeCheck':
+      playThreeCheck(game);
+      break;
+  }
+  const start = fen ?? (variant === 'chess960' ? variantStartFen(variant, STANDARD_CHESS960_NUMBER) : variantStartFen(variant));
+  game.load(start);
+  return game;
+};
+
+export const gameVariant = (game: Chess): Variant => (game as Partial<VariantGame>).variant ?? 'standard';
+
+/**
+ * The side that has won by the variant's own rule (king on the hill, third
+ * check), or null. That is always the side that just moved.
+ */
+export const getVariantWinner = (game: Chess): 'w' | 'b' | null => {
+  switch (gameVariant(game)) {
+    case 'kingOfTheHill': {
+      const kings = internals(game)._kings;
+      if (CENTRE.has(kings.w)) return 'w';
+      if (CENTRE.has(kings.b)) return 'b';
+      return null;
+    }
+    case 'threeCheck': {
+      const { checks } = threeCheckStates.get(game)!;
+      if (checks.w >= 3) return 'w';
+      if (checks.b >= 3) return 'b';
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Whether the side to move has lost: checkmated or beaten by the variant rule.
+ */
+export const sideToMoveLost = (game: Chess): boolean => game.isCheckmate() || getVariantWinner(game) !== null;
+
+/**
+ * Checks each side has given in a Three-check game.
+ */
+export const getChecksGiven = (game: Chess): { w: number; b: number } | null =>
+  gameVariant(game) === 'threeCheck' ? { ...threeCheckStates.get(game)!.checks } : null;
@@ -18,15 +18,71 @@ export interface Move {
   san?: string; // Standard Algebraic Notation
 }
 
-export enum GameStatus {
-  ACTIVE = 'ACTIVE',
-  CHECKMATE = 'CHECKMATE',
-  DRAW = 'DRAW',
-  STALEMATE = 'STALEMATE',
+// How a finished game ended. 'unknown' is an imported result the final
+// position doesn't explain; 'hill' and 'threeChecks' are variant wins.
+export type GameTermination =
+  | 'checkmate'
+  | 'hill'
+  | 'threeChecks'
+  | 'resignation'
+  | 'timeout'
+  | 'stalemate'
+  | 'repetition'
+  | 'fiftyMove'
+  | 'insufficient'
+  | 'agreement'
+  | 'unknown';
+
+// `winner` is null for a draw, including a timeout against a side that can't mate
+export interface GameResult {
+  winner: 'w' | 'b' | null;
+  termination: GameTermination;
+}
+
+// Numeric evaluation from White's perspective. `mate` counts moves to mate
+// (negative when Black mates, 0 once mated); `cp` keeps the sign for mates too.
+export interface EvalScore {
+  cp: number;
+  mate: number | null;
+}
+
+// Candidate move with its principal variation (SAN, starting with the move itself)
+export interface AnalysisLine {
+  san: string;
+  score: EvalScore;
+  pv: string[];
 }
 
 export interface AnalysisResult {
   evaluation: string;
+  score?: EvalScore;
+  lines?: AnalysisLine[]; // best first
   bestMove?: string;
   explanation: string;
+  // Set instead of bestMove when the coach kept suggesting a move that isn't legal
+  illegalMove?: string;
+}
+
+export interface EngineLine {
+  uci: string; // e.g. "e2e4", "e7e8n"
+  san: string;
+  from: string;
+  to: string;
+  promotion?: string;
+  score: number; // centipawns from the side to move's perspective
+  pv: string[]; // principal variation in UCI
+  pvSan: string[];
+}
+
+export interface EngineResult {
+  lines: EngineLine[];
+  depth: number;
+  nodes: number;
+  timeMs: number;
+}
+
+// Computer opponent for the current game
+export interface EngineOpponent {
+  color: 'w' | 'b';
+  level: number;
 }